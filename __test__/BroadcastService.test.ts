@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { BroadcastService } from '../src/core/BroadcastService';
+import { RpcError, TimeoutError } from '../src/core/errors';
+import { InMemoryTransport } from '../src/core/transports';
 
 // Mock BroadcastChannel API
 class MockBroadcastChannel {
@@ -57,6 +59,7 @@ describe('BroadcastService', () => {
     service.closeAll();
     // Restore original BroadcastChannel
     global.BroadcastChannel = originalBroadcastChannel;
+    vi.useRealTimers();
   });
 
   describe('subscribe and broadcast', () => {
@@ -71,7 +74,7 @@ describe('BroadcastService', () => {
       // Wait for async message delivery
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(callback).toHaveBeenCalledWith({ message: 'Hello' });
+      expect(callback).toHaveBeenCalledWith({ message: 'Hello' }, expect.any(Object));
     });
 
     it('should handle multiple subscribers on the same channel', async () => {
@@ -87,9 +90,9 @@ describe('BroadcastService', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(callback1).toHaveBeenCalledWith({ value: 123 });
-      expect(callback2).toHaveBeenCalledWith({ value: 123 });
-      expect(callback3).toHaveBeenCalledWith({ value: 123 });
+      expect(callback1).toHaveBeenCalledWith({ value: 123 }, expect.any(Object));
+      expect(callback2).toHaveBeenCalledWith({ value: 123 }, expect.any(Object));
+      expect(callback3).toHaveBeenCalledWith({ value: 123 }, expect.any(Object));
     });
 
     it('should not trigger callbacks for different channels', async () => {
@@ -147,13 +150,13 @@ describe('BroadcastService', () => {
     it('should handle errors when broadcasting (postMessage fails)', async () => {
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      // Create a channel that will fail when postMessage is called
+      // Create a channel that will fail when a message is posted
       service.subscribe('error-channel', vi.fn());
 
-      // Mock postMessage to throw an error
+      // Mock post to throw an error
       const channel = (service as any).channels.get('error-channel');
-      const originalPostMessage = channel.postMessage;
-      channel.postMessage = vi.fn(() => {
+      const originalPost = channel.post;
+      channel.post = vi.fn(() => {
         throw new Error('postMessage failed');
       });
 
@@ -169,11 +172,432 @@ describe('BroadcastService', () => {
       );
 
       // Restore
-      channel.postMessage = originalPostMessage;
+      channel.post = originalPost;
       consoleErrorSpy.mockRestore();
     });
   });
 
+  describe('message envelope', () => {
+    it('should pass message metadata to subscribers', async () => {
+      const callback = vi.fn();
+      service.subscribe('test-channel', callback);
+
+      service.broadcast('test-channel', { data: 'first' });
+      service.broadcast('test-channel', { data: 'second' });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const [first, second] = callback.mock.calls.map(([, meta]) => meta);
+      expect(first).toEqual({
+        senderId: service.tabId,
+        seq: 1,
+        timestamp: expect.any(Number),
+        messageId: expect.any(String),
+        version: 1,
+      });
+      expect(second.seq).toBe(2);
+      expect(second.messageId).not.toBe(first.messageId);
+    });
+
+    it('should use the tabId and version options', async () => {
+      const callback = vi.fn();
+      const versionedService = new BroadcastService({ tabId: 'tab-a', version: 3 });
+      versionedService.subscribe('test-channel', callback);
+
+      versionedService.broadcast('test-channel', 'hello');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(versionedService.tabId).toBe('tab-a');
+      expect(callback).toHaveBeenCalledWith(
+        'hello',
+        expect.objectContaining({ senderId: 'tab-a', version: 3 })
+      );
+
+      versionedService.closeAll();
+    });
+
+    it('should share the tabId between services in the same tab', () => {
+      expect(new BroadcastService().tabId).toBe(service.tabId);
+    });
+
+    it('should give each message a unique ID across services in the same tab', async () => {
+      const callback = vi.fn();
+      const otherService = new BroadcastService();
+      service.subscribe('test-channel', callback);
+      otherService.subscribe('test-channel', callback);
+
+      service.broadcast('test-channel', 'a');
+      otherService.broadcast('test-channel', 'b');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const messageIds = new Set(callback.mock.calls.map(([, meta]) => meta.messageId));
+      expect(messageIds.size).toBe(2);
+
+      otherService.closeAll();
+    });
+
+    it('should post the data wrapped in an envelope', () => {
+      service.subscribe('test-channel', vi.fn());
+      const channel = (service as any).channels.get('test-channel');
+      const postSpy = vi.spyOn(channel, 'post');
+
+      service.broadcast('test-channel', { data: 'test' });
+
+      expect(postSpy).toHaveBeenCalledWith({
+        __broadcastEnvelope: true,
+        meta: expect.objectContaining({ senderId: service.tabId }),
+        data: { data: 'test' },
+        local: false,
+      });
+    });
+
+    it('should deliver raw messages without metadata', async () => {
+      const callback = vi.fn();
+      service.subscribe('test-channel', callback);
+
+      (service as any).channels.get('test-channel').post({ legacy: true });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(callback).toHaveBeenCalledWith({ legacy: true }, undefined);
+    });
+  });
+
+  describe('self delivery', () => {
+    it('should ignore messages from this tab with excludeSelf', async () => {
+      const callback = vi.fn();
+      const otherTab = new BroadcastService({ tabId: 'other-tab' });
+      service.subscribe('test-channel', callback, { excludeSelf: true });
+
+      service.broadcast('test-channel', 'own');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(callback).not.toHaveBeenCalled();
+
+      // The mock channel only delivers to the channel object that posted
+      (service as any).channels.get('test-channel').post({
+        __broadcastEnvelope: true,
+        meta: { senderId: otherTab.tabId, seq: 1, timestamp: 0, messageId: 'm1', version: 1 },
+        data: 'other tab',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith('other tab', expect.any(Object));
+
+      otherTab.closeAll();
+    });
+
+    it('should deliver own broadcasts synchronously and once with includeSelf', async () => {
+      const callback = vi.fn();
+      service.subscribe('test-channel', callback, { includeSelf: true });
+
+      service.broadcast('test-channel', 'own');
+      expect(callback).toHaveBeenCalledWith('own', expect.objectContaining({ seq: 1 }));
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deliver to all local subscribers once with the local option', async () => {
+      const callback1 = vi.fn();
+      const callback2 = vi.fn();
+      const excluded = vi.fn();
+      service.subscribe('test-channel', callback1);
+      service.subscribe('test-channel', callback2, { includeSelf: true });
+      service.subscribe('test-channel', excluded, { excludeSelf: true });
+
+      service.broadcast('test-channel', 'both', { local: true });
+      expect(callback1).toHaveBeenCalledTimes(1);
+      expect(callback2).toHaveBeenCalledTimes(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(callback1).toHaveBeenCalledTimes(1);
+      expect(callback2).toHaveBeenCalledTimes(1);
+      expect(excluded).not.toHaveBeenCalled();
+    });
+
+    it('should report errors of local deliveries', () => {
+      const onError = vi.fn();
+      const errorService = new BroadcastService({ onError });
+      const error = new Error('Callback error');
+      errorService.subscribe('test-channel', () => {
+        throw error;
+      });
+
+      errorService.broadcast('test-channel', 'local', { local: true });
+
+      expect(onError).toHaveBeenCalledWith(
+        error,
+        expect.objectContaining({ channelName: 'test-channel', operation: 'receive', data: 'local' })
+      );
+
+      errorService.closeAll();
+    });
+
+    it('should allow subscribing to a channel created by broadcast', () => {
+      const callback = vi.fn();
+      service.broadcast('test-channel', 'first');
+
+      expect(() => service.subscribe('test-channel', callback)).not.toThrow();
+    });
+  });
+
+  describe('request/response', () => {
+    // The mock channel delivers to its own listeners, so this service answers its own requests
+    it('should resolve with the handler result', async () => {
+      service.handle('session', 'add', ({ a, b }: { a: number; b: number }) => a + b);
+
+      await expect(service.request('session', 'add', { a: 1, b: 2 })).resolves.toBe(3);
+    });
+
+    it('should await async handlers', async () => {
+      service.handle('session', 'getUser', async () => ({ name: 'Kim' }));
+
+      await expect(service.request('session', 'getUser')).resolves.toEqual({ name: 'Kim' });
+    });
+
+    it('should pass the request metadata to the handler', async () => {
+      const handler = vi.fn(() => 'ok');
+      service.handle('session', 'ping', handler);
+
+      await service.request('session', 'ping', 'hello');
+
+      expect(handler).toHaveBeenCalledWith(
+        'hello',
+        expect.objectContaining({ senderId: service.tabId })
+      );
+    });
+
+    it('should only call handlers of the requested method and channel', async () => {
+      const other = vi.fn();
+      service.handle('session', 'other', other);
+      service.handle('cart', 'ping', other);
+      service.handle('session', 'ping', () => 'pong');
+
+      await expect(service.request('session', 'ping')).resolves.toBe('pong');
+      expect(other).not.toHaveBeenCalled();
+    });
+
+    it('should reject with an RpcError when the handler throws', async () => {
+      service.handle('session', 'fail', () => {
+        throw new TypeError('Bad input');
+      });
+
+      const request = service.request('session', 'fail');
+
+      await expect(request).rejects.toBeInstanceOf(RpcError);
+      await expect(request).rejects.toMatchObject({ message: 'Bad input', remoteName: 'TypeError' });
+    });
+
+    it('should reject with an RpcError when an async handler rejects', async () => {
+      service.handle('session', 'fail', async () => {
+        throw 'plain failure';
+      });
+
+      await expect(service.request('session', 'fail')).rejects.toThrow('plain failure');
+    });
+
+    it('should reject with a TimeoutError when no tab responds', async () => {
+      vi.useFakeTimers();
+      const request = service.request('session', 'missing', undefined, { timeout: 100 });
+      const assertion = expect(request).rejects.toBeInstanceOf(TimeoutError);
+
+      await vi.advanceTimersByTimeAsync(100);
+
+      await assertion;
+      vi.useRealTimers();
+    });
+
+    it('should settle with the first response by default', async () => {
+      service.handle('session', 'who', () => 'first');
+      service.handle('session', 'who', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return 'second';
+      });
+
+      await expect(service.request('session', 'who')).resolves.toBe('first');
+    });
+
+    it('should collect every response until the timeout in all mode', async () => {
+      service.handle('session', 'who', () => 'a');
+      service.handle('session', 'who', () => {
+        throw new Error('b failed');
+      });
+
+      const responses = await service.request('session', 'who', undefined, {
+        mode: 'all',
+        timeout: 20,
+      });
+
+      expect(responses).toEqual([
+        { status: 'fulfilled', value: 'a', senderId: service.tabId },
+        { status: 'rejected', reason: expect.any(RpcError), senderId: service.tabId },
+      ]);
+    });
+
+    it('should resolve with no responses in all mode when no tab responds', async () => {
+      await expect(
+        service.request('session', 'missing', undefined, { mode: 'all', timeout: 10 })
+      ).resolves.toEqual([]);
+    });
+
+    it('should reject when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const request = service.request('session', 'missing', undefined, {
+        signal: controller.signal,
+      });
+
+      controller.abort(new Error('Cancelled'));
+
+      await expect(request).rejects.toThrow('Cancelled');
+    });
+
+    it('should stop answering after the handler is removed', async () => {
+      const handler = vi.fn(() => 'ok');
+      service.handle('session', 'ping', handler).unsubscribe();
+
+      await service.request('session', 'ping', undefined, { mode: 'all', timeout: 10 });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should clean up when the request cannot be sent', async () => {
+      vi.useFakeTimers();
+      const strictService = new BroadcastService({
+        strict: true,
+        transport: new InMemoryTransport(),
+      });
+
+      // Functions cannot be cloned
+      await expect(strictService.request('session', 'ping', () => {})).rejects.toThrow();
+
+      expect((strictService as any).listeners.get('rpc:session')?.size ?? 0).toBe(0);
+      expect(vi.getTimerCount()).toBe(0);
+      strictService.closeAll();
+    });
+
+    it('should respond with an error when the result cannot be sent', async () => {
+      const transport = new InMemoryTransport();
+      const caller = new BroadcastService({ tabId: 'caller', transport });
+      const handler = new BroadcastService({ tabId: 'handler', strict: true, transport });
+      handler.handle('session', 'getCallback', () => () => {});
+
+      const request = caller.request('session', 'getCallback', undefined, { timeout: 1000 });
+
+      await expect(request).rejects.toBeInstanceOf(RpcError);
+      caller.closeAll();
+      handler.closeAll();
+    });
+
+    it('should respond with an error when the result cannot be sent outside strict mode', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const transport = new InMemoryTransport();
+      const caller = new BroadcastService({ tabId: 'caller', transport });
+      const handler = new BroadcastService({ tabId: 'handler', transport });
+      handler.handle('session', 'getCallback', () => () => 1);
+
+      const request = caller.request('session', 'getCallback', undefined, { timeout: 1000 });
+
+      await expect(request).rejects.toBeInstanceOf(RpcError);
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+      caller.closeAll();
+      handler.closeAll();
+    });
+
+    it('should report an error response that cannot be sent', async () => {
+      const onError = vi.fn();
+      const transport = new InMemoryTransport();
+      const handler = new BroadcastService({ tabId: 'handler', strict: true, onError, transport });
+      const caller = new BroadcastService({ tabId: 'caller', transport });
+      handler.handle('session', 'fail', () => {
+        throw new Error('Failed');
+      });
+      vi.spyOn((handler as any).channels.get('rpc:session'), 'post').mockImplementation(() => {
+        throw new Error('Transport closed');
+      });
+
+      const request = caller.request('session', 'fail', undefined, { timeout: 20 });
+
+      await expect(request).rejects.toBeInstanceOf(TimeoutError);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Transport closed' }),
+        expect.objectContaining({ channelName: 'rpc:session', operation: 'broadcast' })
+      );
+      caller.closeAll();
+      handler.closeAll();
+    });
+
+    it('should not confuse concurrent requests', async () => {
+      service.handle('session', 'echo', (value: number) => value);
+
+      await expect(
+        Promise.all([1, 2, 3].map((value) => service.request('session', 'echo', value)))
+      ).resolves.toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('error handling', () => {
+    it('should report callback errors to onError with context', async () => {
+      const onError = vi.fn();
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const errorService = new BroadcastService({ onError });
+      const error = new Error('Callback error');
+      const errorCallback = vi.fn(() => {
+        throw error;
+      });
+
+      const listenerId = errorService.subscribe('test-channel', errorCallback);
+      errorService.broadcast('test-channel', { data: 'test' });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(onError).toHaveBeenCalledWith(error, {
+        channelName: 'test-channel',
+        operation: 'receive',
+        data: { data: 'test' },
+        listenerId,
+        callback: errorCallback,
+      });
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+      errorService.closeAll();
+    });
+
+    it('should report broadcast errors to onError', () => {
+      const onError = vi.fn();
+      const errorService = new BroadcastService({ onError });
+      const error = new Error('postMessage failed');
+
+      errorService.broadcast('error-channel', 'first');
+      (errorService as any).channels.get('error-channel').post = () => {
+        throw error;
+      };
+      errorService.broadcast('error-channel', 'second');
+
+      expect(onError).toHaveBeenCalledWith(error, {
+        channelName: 'error-channel',
+        operation: 'broadcast',
+        data: 'second',
+      });
+
+      errorService.closeAll();
+    });
+
+    it('should rethrow errors in strict mode', () => {
+      const strictService = new BroadcastService({ strict: true });
+
+      strictService.broadcast('error-channel', 'first');
+      (strictService as any).channels.get('error-channel').post = () => {
+        throw new Error('postMessage failed');
+      };
+
+      expect(() => strictService.broadcast('error-channel', 'second')).toThrow(
+        'postMessage failed'
+      );
+
+      strictService.closeAll();
+    });
+  });
+
   describe('unsubscribe', () => {
     it('should unsubscribe a specific listener', async () => {
       const callback = vi.fn();
@@ -354,7 +778,7 @@ describe('BroadcastService', () => {
       service.broadcast('test-channel', null);
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(callback).toHaveBeenCalledWith(null);
+      expect(callback).toHaveBeenCalledWith(null, expect.any(Object));
     });
 
     it('should handle broadcasting without data parameter', async () => {
@@ -419,8 +843,55 @@ describe('BroadcastService', () => {
 
       expect(callback).toHaveBeenCalledTimes(testData.length);
       testData.forEach((data, index) => {
-        expect(callback).toHaveBeenNthCalledWith(index + 1, data);
+        expect(callback).toHaveBeenNthCalledWith(index + 1, data, expect.any(Object));
       });
     });
   });
+
+  describe('Type safety', () => {
+    it('should deliver typed messages and reject unknown channels at compile time', async () => {
+      type TestChannels = {
+        'user-channel': { id: number; name: string };
+        'count-channel': number;
+      };
+
+      const typedService = new BroadcastService<TestChannels>();
+      const callback = vi.fn((data: { id: number; name: string }) => data.name);
+
+      typedService.subscribe('user-channel', callback);
+
+      // @ts-expect-error - unknown channel name
+      typedService.subscribe('other-channel', vi.fn());
+      // @ts-expect-error - message does not match the channel map
+      typedService.broadcast('count-channel', 'not a number');
+
+      typedService.broadcast('user-channel', { id: 1, name: 'Kim' });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(callback).toHaveBeenCalledWith({ id: 1, name: 'Kim' }, expect.any(Object));
+
+      typedService.closeAll();
+    });
+
+    it('should require data unless the channel type accepts undefined', () => {
+      type TestChannels = {
+        'count-channel': number;
+        'ping-channel': undefined;
+        'note-channel': string | undefined;
+      };
+
+      const typedService = new BroadcastService<TestChannels>();
+
+      // @ts-expect-error - data is required for this channel
+      typedService.broadcast('count-channel');
+
+      typedService.broadcast('count-channel', 1, { local: true });
+      typedService.broadcast('ping-channel');
+      typedService.broadcast('note-channel');
+      typedService.broadcast('note-channel', undefined, { local: true });
+
+      typedService.closeAll();
+    });
+  });
 });
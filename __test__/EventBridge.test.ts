@@ -0,0 +1,288 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createEventBridge } from '../src/core/EventBridge';
+import { BroadcastService } from '../src/core/BroadcastService';
+import { EventService } from '../src/core/EventService';
+import { InMemoryTransport } from '../src/core/transports';
+
+// Mock BroadcastChannel API that, like browsers, delivers to every other channel with the same name
+class MockBroadcastChannel {
+  static channels = new Set<MockBroadcastChannel>();
+
+  name: string;
+  private listeners: Set<(event: MessageEvent) => void> = new Set();
+
+  constructor(name: string) {
+    this.name = name;
+    MockBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: any) {
+    MockBroadcastChannel.channels.forEach((channel) => {
+      if (channel !== this && channel.name === this.name) {
+        const event = new MessageEvent('message', { data });
+        channel.listeners.forEach((listener) => {
+          setTimeout(() => listener(event), 0);
+        });
+      }
+    });
+  }
+
+  addEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.delete(listener);
+  }
+
+  close() {
+    this.listeners.clear();
+    MockBroadcastChannel.channels.delete(this);
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('createEventBridge', () => {
+  let originalBroadcastChannel: any;
+  let eventsA: EventService;
+  let eventsB: EventService;
+  let broadcastA: BroadcastService;
+  let broadcastB: BroadcastService;
+
+  beforeEach(() => {
+    originalBroadcastChannel = global.BroadcastChannel;
+    (global as any).BroadcastChannel = MockBroadcastChannel;
+
+    // Two simulated tabs
+    eventsA = new EventService();
+    eventsB = new EventService();
+    broadcastA = new BroadcastService({ tabId: 'tab-a' });
+    broadcastB = new BroadcastService({ tabId: 'tab-b' });
+  });
+
+  const bridgeTabA = (eventTypes: string[]) =>
+    createEventBridge({ eventService: eventsA, broadcastService: broadcastA, eventTypes });
+  const bridgeTabB = (eventTypes: string[]) =>
+    createEventBridge({ eventService: eventsB, broadcastService: broadcastB, eventTypes });
+
+  afterEach(() => {
+    broadcastA.closeAll();
+    broadcastB.closeAll();
+    global.BroadcastChannel = originalBroadcastChannel;
+  });
+
+  it('should mirror bridged events to the other tab', async () => {
+    const listener = vi.fn();
+    bridgeTabA(['cart:updated']);
+    bridgeTabB(['cart:updated']);
+    eventsB.on('cart:updated', listener);
+
+    eventsA.emit('cart:updated', { items: ['apple'] });
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'cart:updated', data: { items: ['apple'] } });
+  });
+
+  it('should mirror events matching a pattern', async () => {
+    const listener = vi.fn();
+    bridgeTabA(['cart:*']);
+    bridgeTabB(['cart:*']);
+    eventsB.on('**', listener);
+
+    eventsA.emit('cart:updated', 1);
+    eventsA.emit('cart:cleared', 2);
+    eventsA.emit('user:login', 3);
+    await flush();
+
+    expect(listener.mock.calls.map(([payload]) => payload.type)).toEqual([
+      'cart:updated',
+      'cart:cleared',
+    ]);
+  });
+
+  it('should broadcast an event matching several event types once', () => {
+    const broadcastSpy = vi.spyOn(broadcastA, 'broadcast');
+    bridgeTabA(['cart:*', 'cart:updated']);
+
+    eventsA.emit('cart:updated', 1);
+
+    expect(broadcastSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not re-broadcast events received from another tab', async () => {
+    bridgeTabA(['cart:*']);
+    bridgeTabB(['cart:*']);
+    const broadcastSpyA = vi.spyOn(broadcastA, 'broadcast');
+    const broadcastSpyB = vi.spyOn(broadcastB, 'broadcast');
+    const listenerA = vi.fn();
+    eventsA.on('cart:updated', listenerA);
+
+    eventsA.emit('cart:updated', 1);
+    await flush();
+    await flush();
+
+    expect(broadcastSpyA).toHaveBeenCalledTimes(1);
+    expect(broadcastSpyB).not.toHaveBeenCalled();
+    expect(listenerA).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not re-broadcast events received from another tab behind async middleware', async () => {
+    const transport = new InMemoryTransport();
+    const channelsA = new BroadcastService({ tabId: 'tab-a', transport });
+    const channelsB = new BroadcastService({ tabId: 'tab-b', transport });
+    eventsA.use(async (payload, next) => {
+      await Promise.resolve();
+      return next(payload);
+    });
+    eventsB.use(async (payload, next) => {
+      await Promise.resolve();
+      return next({ ...payload, data: { ...payload.data, checked: true } });
+    });
+    const bridgeA = createEventBridge({
+      eventService: eventsA,
+      broadcastService: channelsA,
+      eventTypes: ['x'],
+    });
+    const bridgeB = createEventBridge({
+      eventService: eventsB,
+      broadcastService: channelsB,
+      eventTypes: ['x'],
+    });
+    const broadcastSpyA = vi.spyOn(channelsA, 'broadcast');
+    const broadcastSpyB = vi.spyOn(channelsB, 'broadcast');
+    const listenerB = vi.fn();
+    eventsB.on('x', listenerB);
+
+    eventsA.emit('x', { value: 1 });
+    for (let i = 0; i < 5; i++) {
+      await flush();
+    }
+
+    expect(broadcastSpyA).toHaveBeenCalledTimes(1);
+    expect(broadcastSpyB).not.toHaveBeenCalled();
+    expect(listenerB).toHaveBeenCalledWith({ type: 'x', data: { value: 1, checked: true } });
+
+    bridgeA.unsubscribe();
+    bridgeB.unsubscribe();
+    channelsA.closeAll();
+    channelsB.closeAll();
+  });
+
+  it('should not re-broadcast events received from another tab behind middleware that replaces the payload', async () => {
+    const transport = new InMemoryTransport();
+    const channelsA = new BroadcastService({ tabId: 'tab-a', transport });
+    const channelsB = new BroadcastService({ tabId: 'tab-b', transport });
+    let passedB = 0;
+    eventsA.use((payload, next) => next({ type: payload.type, data: payload.data }));
+    eventsB.use(async (payload, next) => {
+      await Promise.resolve();
+      // Cancel an echo instead of looping forever if the mark is lost
+      if (++passedB > 3) {
+        return;
+      }
+      return next({ type: payload.type, data: payload.data });
+    });
+    const bridgeA = createEventBridge({
+      eventService: eventsA,
+      broadcastService: channelsA,
+      eventTypes: ['x'],
+    });
+    const bridgeB = createEventBridge({
+      eventService: eventsB,
+      broadcastService: channelsB,
+      eventTypes: ['x'],
+    });
+    const broadcastSpyA = vi.spyOn(channelsA, 'broadcast');
+    const broadcastSpyB = vi.spyOn(channelsB, 'broadcast');
+    const listenerB = vi.fn();
+    eventsB.on('x', listenerB);
+
+    eventsA.emit('x', 1);
+    for (let i = 0; i < 5; i++) {
+      await flush();
+    }
+
+    expect(broadcastSpyA).toHaveBeenCalledTimes(1);
+    expect(broadcastSpyB).not.toHaveBeenCalled();
+    expect(listenerB).toHaveBeenCalledTimes(1);
+
+    bridgeA.unsubscribe();
+    bridgeB.unsubscribe();
+    channelsA.closeAll();
+    channelsB.closeAll();
+  });
+
+  it('should broadcast events whose propagation a listener stopped', () => {
+    const broadcastSpy = vi.spyOn(broadcastA, 'broadcast');
+    bridgeTabA(['cart:updated']);
+    eventsA.on('cart:updated', ({ stopPropagation }) => stopPropagation(), { priority: 100 });
+
+    eventsA.emit('cart:updated', 1);
+
+    expect(broadcastSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only subscribe to the bridged event types', () => {
+    bridgeTabA(['cart:*', 'auth:logout']);
+
+    expect(eventsA.eventTypes()).toEqual(['cart:*', 'auth:logout']);
+    expect(eventsA.listenerCount('user:login')).toBe(0);
+  });
+
+  it('should ignore received events that are not bridged', async () => {
+    const listener = vi.fn();
+    bridgeTabA(['**']);
+    bridgeTabB(['cart:*']);
+    eventsB.on('**', listener);
+
+    eventsA.emit('user:login', 1);
+    await flush();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should not broadcast sticky payloads replayed when the bridge starts', () => {
+    const broadcastSpy = vi.spyOn(broadcastA, 'broadcast');
+    eventsA.setSticky('cart:updated');
+    eventsA.emit('cart:updated', 1);
+
+    bridgeTabA(['cart:*']);
+
+    expect(broadcastSpy).not.toHaveBeenCalled();
+  });
+
+  it('should use a custom channel name', async () => {
+    const listener = vi.fn();
+    createEventBridge({
+      eventService: eventsA,
+      broadcastService: broadcastA,
+      eventTypes: ['cart:*'],
+      channelName: 'shop',
+    });
+    bridgeTabB(['cart:*']);
+    broadcastB.subscribe('shop', listener);
+
+    eventsA.emit('cart:updated', 1);
+    await flush();
+
+    expect(listener).toHaveBeenCalledWith({ type: 'cart:updated', data: 1 }, expect.any(Object));
+  });
+
+  it('should stop mirroring after unsubscribe', async () => {
+    const listener = vi.fn();
+    const bridgeA = bridgeTabA(['cart:*']);
+    const bridgeB = bridgeTabB(['cart:*']);
+    eventsB.on('cart:updated', listener);
+
+    bridgeA.unsubscribe();
+    eventsA.emit('cart:updated', 1);
+    await flush();
+    expect(listener).not.toHaveBeenCalled();
+
+    bridgeB.unsubscribe();
+    expect(eventsA.listenerCount('cart:updated')).toBe(0);
+    expect(eventsB.listenerCount('cart:updated')).toBe(1);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { EventService } from '../src/core/EventService';
+import { TimeoutError } from '../src/core/errors';
 
 describe('EventService', () => {
   let service: EventService;
@@ -82,6 +83,436 @@ describe('EventService', () => {
     });
   });
 
+  describe('emitAsync', () => {
+    it('should await async listeners and resolve with their results', async () => {
+      service.on('test-event', async (payload) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return `async ${payload.data}`;
+      });
+      service.on('test-event', (payload) => `sync ${payload.data}`);
+
+      await expect(service.emitAsync('test-event', 'value')).resolves.toEqual([
+        'async value',
+        'sync value',
+      ]);
+    });
+
+    it('should resolve with an empty array when there are no listeners', async () => {
+      await expect(service.emitAsync('no-listeners', {})).resolves.toEqual([]);
+    });
+
+    it('should run listeners in parallel by default', async () => {
+      const calls: string[] = [];
+      service.on('test-event', async () => {
+        calls.push('first:start');
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        calls.push('first:end');
+      });
+      service.on('test-event', async () => {
+        calls.push('second:start');
+      });
+
+      await service.emitAsync('test-event', {});
+
+      expect(calls).toEqual(['first:start', 'second:start', 'first:end']);
+    });
+
+    it('should run listeners one after another in sequential mode', async () => {
+      const calls: string[] = [];
+      service.on('test-event', async () => {
+        calls.push('first:start');
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        calls.push('first:end');
+      });
+      service.on('test-event', async () => {
+        calls.push('second:start');
+      });
+
+      await service.emitAsync('test-event', {}, { mode: 'sequential' });
+
+      expect(calls).toEqual(['first:start', 'first:end', 'second:start']);
+    });
+
+    it('should reject with an AggregateError after all listeners settle', async () => {
+      const normalListener = vi.fn();
+      service.on('test-event', async () => {
+        throw new Error('Async error');
+      });
+      service.on('test-event', () => {
+        throw new Error('Sync error');
+      });
+      service.on('test-event', normalListener);
+
+      const error = await service.emitAsync('test-event', {}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AggregateError);
+      expect(error.errors.map((e: Error) => e.message)).toEqual(['Async error', 'Sync error']);
+      expect(normalListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop propagation in sequential mode', async () => {
+      const listener = vi.fn();
+      service.on('test-event', listener);
+      service.on('test-event', async (payload) => payload.stopPropagation(), { priority: 1 });
+
+      await service.emitAsync('test-event', {}, { mode: 'sequential' });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('error handling', () => {
+    it('should report listener errors to onError with context', () => {
+      const onError = vi.fn();
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const errorService = new EventService({ onError });
+      const error = new Error('Listener error');
+      const errorListener = vi.fn(() => {
+        throw error;
+      });
+      const normalListener = vi.fn();
+
+      errorService.on('test-event', errorListener);
+      errorService.on('test-event', normalListener);
+      errorService.emit('test-event', { data: 'test' });
+
+      expect(onError).toHaveBeenCalledWith(error, {
+        eventType: 'test-event',
+        listener: errorListener,
+        payload: { type: 'test-event', data: { data: 'test' } },
+      });
+      expect(normalListener).toHaveBeenCalledTimes(1);
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should emit the error meta-event', () => {
+      const errorEventListener = vi.fn();
+      const errorService = new EventService({ onError: vi.fn() });
+      const error = new Error('Listener error');
+
+      errorService.on('error', errorEventListener);
+      errorService.on('test-event', () => {
+        throw error;
+      });
+      errorService.emit('test-event', 42);
+
+      expect(errorEventListener).toHaveBeenCalledTimes(1);
+      const { data } = errorEventListener.mock.calls[0][0];
+      expect(data.error).toBe(error);
+      expect(data.context.eventType).toBe('test-event');
+      expect(data.context.payload).toEqual({ type: 'test-event', data: 42 });
+    });
+
+    it('should not report errors thrown by error meta-event listeners again', () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onError = vi.fn();
+      const errorService = new EventService({ onError });
+
+      errorService.on('error', () => {
+        throw new Error('Meta listener error');
+      });
+      errorService.on('test-event', () => {
+        throw new Error('Listener error');
+      });
+
+      expect(() => errorService.emit('test-event', {})).not.toThrow();
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should rethrow listener errors in strict mode', () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onError = vi.fn();
+      const strictService = new EventService({ strict: true, onError });
+      const laterListener = vi.fn();
+
+      strictService.on('test-event', () => {
+        throw new Error('Listener error');
+      });
+      strictService.on('test-event', laterListener);
+
+      expect(() => strictService.emit('test-event', {})).toThrow('Listener error');
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(laterListener).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('middleware', () => {
+    it('should run middleware in registration order before listeners', () => {
+      const calls: string[] = [];
+      service.use((payload, next) => {
+        calls.push('first');
+        return next();
+      });
+      service.use((payload, next) => {
+        calls.push('second');
+        return next();
+      });
+      service.on('test-event', () => calls.push('listener'));
+
+      service.emit('test-event', {});
+
+      expect(calls).toEqual(['first', 'second', 'listener']);
+    });
+
+    it('should let middleware transform the payload', () => {
+      const listener = vi.fn();
+      service.use((payload, next) => next({ ...payload, data: { ...payload.data, enriched: true } }));
+      service.on('test-event', listener);
+
+      service.emit('test-event', { value: 1 });
+
+      expect(listener).toHaveBeenCalledWith({
+        type: 'test-event',
+        data: { value: 1, enriched: true },
+      });
+    });
+
+    it('should let middleware cancel the event', () => {
+      const listener = vi.fn();
+      service.use((payload, next) => {
+        if (payload.data !== null) {
+          return next();
+        }
+      });
+      service.on('test-event', listener);
+
+      service.emit('test-event', null);
+      service.emit('test-event', 'valid');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ type: 'test-event', data: 'valid' });
+    });
+
+    it('should propagate middleware errors to the emitter', () => {
+      service.use(() => {
+        throw new Error('Invalid payload');
+      });
+
+      expect(() => service.emit('test-event', {})).toThrow('Invalid payload');
+    });
+
+    it('should report async middleware rejections of emit to onError', async () => {
+      const onError = vi.fn();
+      const errorListener = vi.fn();
+      const strictService = new EventService({ onError, strict: true });
+      const error = new Error('Invalid payload');
+      strictService.use(async () => {
+        throw error;
+      });
+      strictService.on('error', errorListener);
+
+      expect(() => strictService.emit('test-event', 1)).not.toThrow();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(onError).toHaveBeenCalledWith(error, {
+        eventType: 'test-event',
+        payload: { type: 'test-event', data: 1 },
+      });
+      expect(errorListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a strict listener error behind async middleware once', async () => {
+      const onError = vi.fn();
+      const errorListener = vi.fn();
+      const strictService = new EventService({ onError, strict: true });
+      const error = new Error('Listener failed');
+      const listener = () => {
+        throw error;
+      };
+      strictService.use(async (payload, next) => {
+        await Promise.resolve();
+        return next();
+      });
+      strictService.on('test-event', listener);
+      strictService.on('error', errorListener);
+
+      strictService.emit('test-event', 1);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(error, expect.objectContaining({ listener }));
+      expect(errorListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log async middleware rejections of emit without onError', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const error = new Error('Invalid payload');
+      service.use(async () => {
+        throw error;
+      });
+
+      service.emit('test-event', {});
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(consoleSpy).toHaveBeenCalledWith('Error in event middleware for "test-event":', error);
+      consoleSpy.mockRestore();
+    });
+
+    it('should remove middleware through its subscription', () => {
+      const middleware = vi.fn((payload, next) => next());
+      const subscription = service.use(middleware);
+
+      subscription.unsubscribe();
+      service.emit('test-event', {});
+
+      expect(middleware).not.toHaveBeenCalled();
+    });
+
+    it('should await async middleware in emitAsync', async () => {
+      const listener = vi.fn(() => 'done');
+      service.use(async (payload, next) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return next({ ...payload, data: 'validated' });
+      });
+      service.on('test-event', listener);
+
+      await expect(service.emitAsync('test-event', 'raw')).resolves.toEqual(['done']);
+      expect(listener).toHaveBeenCalledWith({ type: 'test-event', data: 'validated' });
+    });
+
+    it('should not leave emitAsync rejections unhandled when middleware skips returning next()', async () => {
+      const unhandled = vi.fn();
+      process.on('unhandledRejection', unhandled);
+      const error = new Error('Listener failed');
+      service.use(async (payload, next) => {
+        next();
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      });
+      service.on('test-event', () => {
+        throw error;
+      });
+
+      await expect(service.emitAsync('test-event', {})).rejects.toMatchObject({ errors: [error] });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      process.off('unhandledRejection', unhandled);
+      expect(unhandled).not.toHaveBeenCalled();
+    });
+
+    it('should resolve emitAsync with no results when middleware cancels', async () => {
+      const listener = vi.fn();
+      service.use(async () => {});
+      service.on('test-event', listener);
+
+      await expect(service.emitAsync('test-event', {})).resolves.toEqual([]);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sticky events', () => {
+    it('should replay the last payload to new subscribers of a sticky type', () => {
+      service.setSticky('user:updated');
+
+      service.emit('user:updated', { name: 'first' });
+      service.emit('user:updated', { name: 'second' });
+
+      const listener = vi.fn();
+      service.on('user:updated', listener);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ type: 'user:updated', data: { name: 'second' } });
+    });
+
+    it('should keep the last N payloads', () => {
+      service.setSticky('log', 2);
+
+      service.emit('log', 1);
+      service.emit('log', 2);
+      service.emit('log', 3);
+
+      const listener = vi.fn();
+      service.on('log', listener);
+
+      expect(listener.mock.calls.map(([payload]) => payload.data)).toEqual([2, 3]);
+    });
+
+    it('should make every type sticky with the service option', () => {
+      const stickyService = new EventService({ sticky: true });
+      stickyService.emit('a', 1);
+      stickyService.emit('b', 2);
+
+      expect(stickyService.getLast('a')).toEqual({ type: 'a', data: 1 });
+      expect(stickyService.getLast('b')).toEqual({ type: 'b', data: 2 });
+    });
+
+    it('should not keep payloads of non-sticky types', () => {
+      const listener = vi.fn();
+      service.emit('test-event', 1);
+      service.on('test-event', listener);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(service.getLast('test-event')).toBeUndefined();
+    });
+
+    it('should replay matching sticky types to pattern subscribers in emission order', () => {
+      const stickyService = new EventService({ sticky: true });
+      stickyService.emit('user:updated', 1);
+      stickyService.emit('cart:updated', 2);
+      stickyService.emit('user:deleted', 3);
+
+      const listener = vi.fn();
+      stickyService.on('user:*', listener);
+
+      expect(listener.mock.calls.map(([payload]) => payload.type)).toEqual([
+        'user:updated',
+        'user:deleted',
+      ]);
+    });
+
+    it('should replay only once to once listeners', () => {
+      service.setSticky('log', 3);
+      service.emit('log', 1);
+      service.emit('log', 2);
+
+      const listener = vi.fn();
+      service.once('log', listener);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(service.listenerCount('log')).toBe(0);
+    });
+
+    it('should resolve waitFor with a kept payload', async () => {
+      service.setSticky('auth:ready');
+      service.emit('auth:ready', { userId: '1' });
+
+      await expect(service.waitFor('auth:ready')).resolves.toEqual({
+        type: 'auth:ready',
+        data: { userId: '1' },
+      });
+      expect(service.listenerCount('auth:ready')).toBe(0);
+    });
+
+    it('should keep the payload as transformed by middleware', () => {
+      service.setSticky('test-event');
+      service.use((payload, next) => next({ ...payload, data: 'transformed' }));
+
+      service.emit('test-event', 'raw');
+
+      expect(service.getLast('test-event')).toEqual({ type: 'test-event', data: 'transformed' });
+    });
+
+    it('should drop kept payloads when disabled or cleared', () => {
+      service.setSticky('a');
+      service.setSticky('b');
+      service.emit('a', 1);
+      service.emit('b', 2);
+
+      service.setSticky('a', false);
+      expect(service.getLast('a')).toBeUndefined();
+
+      service.clearSticky();
+      expect(service.getLast('b')).toBeUndefined();
+    });
+  });
+
   describe('off', () => {
     it('should remove a specific listener', () => {
       const listener = vi.fn();
@@ -129,6 +560,316 @@ describe('EventService', () => {
     });
   });
 
+  describe('subscriptions', () => {
+    it('should return a subscription that removes the listener', () => {
+      const listener = vi.fn();
+
+      const subscription = service.on('test-event', listener);
+      service.emit('test-event', { data: 'first' });
+
+      subscription.unsubscribe();
+      service.emit('test-event', { data: 'second' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(service.listenerCount('test-event')).toBe(0);
+    });
+
+    it('should support Symbol.dispose', () => {
+      const listener = vi.fn();
+
+      const subscription = service.on('test-event', listener);
+      subscription[Symbol.dispose]();
+
+      service.emit('test-event', { data: 'test' });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should ignore repeated unsubscribe calls', () => {
+      const listener = vi.fn();
+
+      const subscription = service.on('test-event', listener);
+      subscription.unsubscribe();
+      service.on('test-event', listener);
+      subscription.unsubscribe();
+
+      service.emit('test-event', { data: 'test' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('once', () => {
+    it('should call the listener for the next emit only', () => {
+      const listener = vi.fn();
+
+      service.once('test-event', listener);
+
+      service.emit('test-event', { data: 'first' });
+      service.emit('test-event', { data: 'second' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ type: 'test-event', data: { data: 'first' } });
+      expect(service.listenerCount('test-event')).toBe(0);
+    });
+
+    it('should be cancellable through its subscription', () => {
+      const listener = vi.fn();
+
+      const subscription = service.once('test-event', listener);
+      subscription.unsubscribe();
+
+      service.emit('test-event', { data: 'test' });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should be removable with off using the original listener', () => {
+      const listener = vi.fn();
+
+      service.once('test-event', listener);
+      service.off('test-event', listener);
+
+      service.emit('test-event', { data: 'test' });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(service.listenerCount('test-event')).toBe(0);
+    });
+  });
+
+  describe('waitFor', () => {
+    it('should resolve with the next payload', async () => {
+      const promise = service.waitFor('auth:ready');
+
+      service.emit('auth:ready', { userId: '1' });
+
+      await expect(promise).resolves.toEqual({ type: 'auth:ready', data: { userId: '1' } });
+      expect(service.listenerCount('auth:ready')).toBe(0);
+    });
+
+    it('should skip payloads that do not match the predicate', async () => {
+      const promise = service.waitFor('counter', {
+        predicate: (payload) => payload.data === 3,
+      });
+
+      service.emit('counter', 1);
+      service.emit('counter', 2);
+      service.emit('counter', 3);
+
+      await expect(promise).resolves.toEqual({ type: 'counter', data: 3 });
+    });
+
+    it('should reject when the predicate throws', async () => {
+      const promise = service.waitFor('counter', {
+        predicate: () => {
+          throw new Error('Predicate error');
+        },
+      });
+
+      service.emit('counter', 1);
+
+      await expect(promise).rejects.toThrow('Predicate error');
+      expect(service.listenerCount('counter')).toBe(0);
+    });
+
+    it('should reject with a TimeoutError after the timeout', async () => {
+      vi.useFakeTimers();
+
+      const promise = service.waitFor('auth:ready', { timeout: 1000 });
+      vi.advanceTimersByTime(1000);
+
+      await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+      expect(service.listenerCount('auth:ready')).toBe(0);
+
+      vi.useRealTimers();
+    });
+
+    it('should reject when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const promise = service.waitFor('auth:ready', { signal: controller.signal });
+
+      controller.abort(new Error('Cancelled'));
+
+      await expect(promise).rejects.toThrow('Cancelled');
+      expect(service.listenerCount('auth:ready')).toBe(0);
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('Cancelled'));
+
+      await expect(
+        service.waitFor('auth:ready', { signal: controller.signal })
+      ).rejects.toThrow('Cancelled');
+      expect(service.listenerCount('auth:ready')).toBe(0);
+    });
+  });
+
+  describe('wildcard patterns', () => {
+    it('should match a single segment with *', () => {
+      const listener = vi.fn();
+      service.on('user:*', listener);
+
+      service.emit('user:updated', { name: 'Kim' });
+      service.emit('user:profile:updated', { name: 'Kim' });
+      service.emit('cart:updated', { items: [] });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ type: 'user:updated', data: { name: 'Kim' } });
+    });
+
+    it('should match a leading wildcard segment', () => {
+      const listener = vi.fn();
+      service.on('*:error', listener);
+
+      service.emit('user:error', 'user failed');
+      service.emit('cart:error', 'cart failed');
+      service.emit('cart:updated', {});
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenNthCalledWith(1, { type: 'user:error', data: 'user failed' });
+      expect(listener).toHaveBeenNthCalledWith(2, { type: 'cart:error', data: 'cart failed' });
+    });
+
+    it('should match any number of segments with **', () => {
+      const allListener = vi.fn();
+      const userListener = vi.fn();
+      service.on('**', allListener);
+      service.on('user:**', userListener);
+
+      service.emit('test-event', 1);
+      service.emit('user', 2);
+      service.emit('user:profile:updated', 3);
+
+      expect(allListener).toHaveBeenCalledTimes(3);
+      expect(userListener).toHaveBeenCalledTimes(2);
+      expect(userListener).toHaveBeenLastCalledWith({ type: 'user:profile:updated', data: 3 });
+    });
+
+    it('should call exact and pattern listeners in registration order', () => {
+      const calls: string[] = [];
+      service.on('user:*', () => calls.push('pattern'));
+      service.on('user:updated', () => calls.push('exact'));
+      service.on('**', () => calls.push('all'));
+
+      service.emit('user:updated', {});
+
+      expect(calls).toEqual(['pattern', 'exact', 'all']);
+    });
+
+    it('should unsubscribe pattern listeners', () => {
+      const listener = vi.fn();
+      const subscription = service.on('user:*', listener);
+
+      subscription.unsubscribe();
+      service.emit('user:updated', {});
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(service.eventTypes()).not.toContain('user:*');
+    });
+
+    it('should support once and waitFor with patterns', async () => {
+      const listener = vi.fn();
+      service.once('user:*', listener);
+      const promise = service.waitFor('*:updated');
+
+      service.emit('user:updated', { name: 'Kim' });
+      service.emit('user:deleted', { id: 1 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      await expect(promise).resolves.toEqual({ type: 'user:updated', data: { name: 'Kim' } });
+    });
+
+    it('should count pattern listeners for matching event types', () => {
+      service.on('user:updated', vi.fn());
+      service.on('user:*', vi.fn());
+      service.on('user:*', vi.fn());
+      service.on('**', vi.fn());
+
+      expect(service.listenerCount('user:updated')).toBe(4);
+      expect(service.listenerCount('cart:updated')).toBe(1);
+      expect(service.listenerCount('user:*')).toBe(2);
+      expect(service.eventTypes()).toEqual(['user:updated', 'user:*', '**']);
+    });
+
+    it('should clear pattern listeners', () => {
+      const listener = vi.fn();
+      service.on('user:*', listener);
+
+      service.clear('user:*');
+      service.emit('user:updated', {});
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(service.listenerCount('user:updated')).toBe(0);
+    });
+  });
+
+  describe('priorities', () => {
+    it('should call listeners by priority, then registration order', () => {
+      const calls: string[] = [];
+      service.on('test-event', () => calls.push('default-1'));
+      service.on('test-event', () => calls.push('low'), { priority: -5 });
+      service.on('test-event', () => calls.push('high'), { priority: 10 });
+      service.on('test-event', () => calls.push('default-2'));
+      service.on('test-event', () => calls.push('high-2'), { priority: 10 });
+
+      service.emit('test-event', {});
+
+      expect(calls).toEqual(['high', 'high-2', 'default-1', 'default-2', 'low']);
+    });
+
+    it('should order exact and pattern listeners together by priority', () => {
+      const calls: string[] = [];
+      service.on('user:updated', () => calls.push('exact'));
+      service.on('user:*', () => calls.push('pattern-guard'), { priority: 100 });
+      service.on('**', () => calls.push('audit'), { priority: 50 });
+
+      service.emit('user:updated', {});
+
+      expect(calls).toEqual(['pattern-guard', 'audit', 'exact']);
+    });
+
+    it('should stop propagation to lower-priority listeners for the current emit', () => {
+      const guard = vi.fn((payload) => {
+        if (payload.data.blocked) {
+          payload.stopPropagation();
+        }
+      });
+      const listener = vi.fn();
+
+      service.on('test-event', listener);
+      service.on('test-event', guard, { priority: 10 });
+
+      service.emit('test-event', { blocked: true });
+      service.emit('test-event', { blocked: false });
+
+      expect(guard).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ type: 'test-event', data: { blocked: false } });
+    });
+
+    it('should apply priority to once listeners', () => {
+      const calls: string[] = [];
+      service.on('test-event', () => calls.push('default'));
+      service.once('test-event', () => calls.push('once'), { priority: 1 });
+
+      service.emit('test-event', {});
+      service.emit('test-event', {});
+
+      expect(calls).toEqual(['once', 'default', 'default']);
+    });
+
+    it('should not call listeners removed earlier in the same emit', () => {
+      const second = vi.fn();
+      service.on('test-event', () => service.off('test-event', second));
+      service.on('test-event', second);
+
+      service.emit('test-event', {});
+
+      expect(second).not.toHaveBeenCalled();
+    });
+  });
+
   describe('clear', () => {
     it('should clear all listeners for a specific event type', () => {
       const listener1 = vi.fn();
@@ -232,26 +973,68 @@ describe('EventService', () => {
 
   describe('Type safety', () => {
     it('should work with different data types', () => {
+      type TestEvents = {
+        'string-event': string;
+        'number-event': number;
+        'object-event': { id: number };
+        'array-event': number[];
+      };
+
+      const typedService = new EventService<TestEvents>();
       const stringListener = vi.fn();
       const numberListener = vi.fn();
       const objectListener = vi.fn();
       const arrayListener = vi.fn();
 
-      service.on<string>('string-event', stringListener);
-      service.on<number>('number-event', numberListener);
-      service.on<{ id: number }>('object-event', objectListener);
-      service.on<number[]>('array-event', arrayListener);
+      typedService.on('string-event', stringListener);
+      typedService.on('number-event', numberListener);
+      typedService.on('object-event', objectListener);
+      typedService.on('array-event', arrayListener);
 
-      service.emit<string>('string-event', 'hello');
-      service.emit<number>('number-event', 42);
-      service.emit<{ id: number }>('object-event', { id: 1 });
-      service.emit<number[]>('array-event', [1, 2, 3]);
+      typedService.emit('string-event', 'hello');
+      typedService.emit('number-event', 42);
+      typedService.emit('object-event', { id: 1 });
+      typedService.emit('array-event', [1, 2, 3]);
 
       expect(stringListener).toHaveBeenCalledWith({ type: 'string-event', data: 'hello' });
       expect(numberListener).toHaveBeenCalledWith({ type: 'number-event', data: 42 });
       expect(objectListener).toHaveBeenCalledWith({ type: 'object-event', data: { id: 1 } });
       expect(arrayListener).toHaveBeenCalledWith({ type: 'array-event', data: [1, 2, 3] });
     });
+
+    it('should reject unknown event names and mismatched payloads at compile time', () => {
+      const typedService = new EventService<{ 'user:updated': { name: string } }>();
+      const listener = vi.fn();
+
+      typedService.on('user:updated', listener);
+
+      // @ts-expect-error - unknown event name
+      typedService.on('user:deleted', vi.fn());
+      // @ts-expect-error - payload does not match the event map
+      typedService.emit('user:updated', { id: 1 });
+
+      typedService.emit('user:updated', { name: 'Kim' });
+
+      expect(listener).toHaveBeenCalledWith({ type: 'user:updated', data: { name: 'Kim' } });
+    });
+
+    it('should only accept wildcards that fill a whole segment as patterns', () => {
+      const typedService = new EventService<{ 'user:updated': { name: string } }>();
+      const listener = vi.fn();
+
+      typedService.on('user:*', listener);
+      typedService.on('*:updated', listener);
+      typedService.on('user:**', listener);
+      typedService.on('**', listener);
+      // @ts-expect-error - `*` inside a segment is not a wildcard
+      typedService.on('user*', vi.fn());
+      // @ts-expect-error - `*` inside a segment is not a wildcard
+      typedService.on('user:up*', vi.fn());
+
+      typedService.emit('user:updated', { name: 'Kim' });
+
+      expect(listener).toHaveBeenCalledTimes(4);
+    });
   });
 
   describe('Edge cases', () => {
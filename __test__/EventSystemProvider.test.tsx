@@ -0,0 +1,159 @@
+import React from 'react';
+import type { ReactNode } from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  EventSystemProvider,
+  useBroadcastService,
+  useEventService,
+} from '../src/react/EventSystemProvider';
+import { useEventEmit } from '../src/react/useEventEmit';
+import { useEventOn } from '../src/react/useEventOn';
+import { useEventState } from '../src/react/useEventState';
+import { useBroadcast, useBroadcastOn } from '../src/react/useBroadcast';
+import { BroadcastService, broadcastService } from '../src/core/BroadcastService';
+import { EventService, eventService } from '../src/core/EventService';
+import { InMemoryTransport } from '../src/core/transports';
+
+describe('EventSystemProvider', () => {
+  let scopedEvents: EventService;
+  let scopedChannels: BroadcastService;
+
+  const wrapper = ({ children }: { children?: ReactNode }) => (
+    <EventSystemProvider eventService={scopedEvents} broadcastService={scopedChannels}>
+      {children}
+    </EventSystemProvider>
+  );
+
+  beforeEach(() => {
+    scopedEvents = new EventService();
+    scopedChannels = new BroadcastService({ transport: new InMemoryTransport() });
+  });
+
+  afterEach(() => {
+    scopedChannels.closeAll();
+  });
+
+  describe('service resolution', () => {
+    it('should fall back to the singletons without a provider', () => {
+      const { result } = renderHook(() => ({
+        eventService: useEventService(),
+        broadcastService: useBroadcastService(),
+      }));
+
+      expect(result.current.eventService).toBe(eventService);
+      expect(result.current.broadcastService).toBe(broadcastService);
+    });
+
+    it('should supply the provider services', () => {
+      const { result } = renderHook(
+        () => ({ eventService: useEventService(), broadcastService: useBroadcastService() }),
+        { wrapper }
+      );
+
+      expect(result.current.eventService).toBe(scopedEvents);
+      expect(result.current.broadcastService).toBe(scopedChannels);
+    });
+
+    it('should let nested providers override only the services they are given', () => {
+      const innerEvents = new EventService();
+      const { result } = renderHook(
+        () => ({ eventService: useEventService(), broadcastService: useBroadcastService() }),
+        {
+          wrapper: ({ children }) => (
+            <EventSystemProvider eventService={scopedEvents} broadcastService={scopedChannels}>
+              <EventSystemProvider eventService={innerEvents}>{children}</EventSystemProvider>
+            </EventSystemProvider>
+          ),
+        }
+      );
+
+      expect(result.current.eventService).toBe(innerEvents);
+      expect(result.current.broadcastService).toBe(scopedChannels);
+    });
+
+    it('should prefer an explicit service over the provider', () => {
+      const explicitEvents = new EventService();
+      const { result } = renderHook(() => useEventService(explicitEvents), { wrapper });
+
+      expect(result.current).toBe(explicitEvents);
+    });
+  });
+
+  describe('hooks', () => {
+    it('should emit and listen on the provider event service', () => {
+      const callback = vi.fn();
+      const globalCallback = vi.fn();
+      const subscription = eventService.on('test-event', globalCallback);
+
+      const { result } = renderHook(
+        () => {
+          useEventOn('test-event', callback);
+          return {
+            emit: useEventEmit(),
+            state: useEventState('test-event', { count: 0 }),
+          };
+        },
+        { wrapper }
+      );
+
+      act(() => {
+        result.current.emit('test-event', { count: 1 });
+      });
+
+      expect(callback).toHaveBeenCalledWith({ count: 1 }, expect.any(Object));
+      expect(result.current.state).toEqual({ count: 1 });
+      expect(globalCallback).not.toHaveBeenCalled();
+
+      subscription.unsubscribe();
+    });
+
+    it('should broadcast and subscribe on the provider broadcast service', () => {
+      const broadcastSpy = vi.spyOn(scopedChannels, 'broadcast');
+      const subscribeSpy = vi.spyOn(scopedChannels, 'subscribe');
+      const callback = vi.fn();
+
+      const { result } = renderHook(
+        () => {
+          useBroadcastOn('test-channel', callback, undefined, { includeSelf: true });
+          return useBroadcast();
+        },
+        { wrapper }
+      );
+
+      act(() => {
+        result.current('test-channel', { data: 'test' });
+      });
+
+      expect(subscribeSpy).toHaveBeenCalledWith('test-channel', expect.any(Function), {
+        includeSelf: true,
+        excludeSelf: undefined,
+      });
+      expect(broadcastSpy).toHaveBeenCalledWith('test-channel', { data: 'test' });
+      expect(callback).toHaveBeenCalledWith({ data: 'test' }, expect.any(Object));
+    });
+
+    it('should resubscribe when the provider service changes', () => {
+      const otherEvents = new EventService();
+      const callback = vi.fn();
+      let events = scopedEvents;
+
+      const { rerender } = renderHook(() => useEventOn('test-event', callback), {
+        wrapper: ({ children }) => (
+          <EventSystemProvider eventService={events}>{children}</EventSystemProvider>
+        ),
+      });
+
+      events = otherEvents;
+      rerender();
+
+      act(() => {
+        scopedEvents.emit('test-event', 'old');
+        otherEvents.emit('test-event', 'new');
+      });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith('new', expect.any(Object));
+    });
+  });
+});
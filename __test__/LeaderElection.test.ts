@@ -0,0 +1,336 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LeaderElection } from '../src/core/LeaderElection';
+import { BroadcastService } from '../src/core/BroadcastService';
+
+// Mock BroadcastChannel API (same as in EventBridge.test.ts)
+class MockBroadcastChannel {
+  static channels = new Set<MockBroadcastChannel>();
+
+  name: string;
+  private listeners: Set<(event: MessageEvent) => void> = new Set();
+
+  constructor(name: string) {
+    this.name = name;
+    MockBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: any) {
+    MockBroadcastChannel.channels.forEach((channel) => {
+      if (channel !== this && channel.name === this.name) {
+        const event = new MessageEvent('message', { data });
+        channel.listeners.forEach((listener) => {
+          // BroadcastChannel delivers the messages of a sender in the order they were posted.
+          // Fake timers run a 0ms timeout set inside another timer 1ms later, which would let
+          // a heartbeat sent from a timer arrive after a later message, so use 1ms throughout
+          setTimeout(() => listener(event), 1);
+        });
+      }
+    });
+  }
+
+  addEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.delete(listener);
+  }
+
+  close() {
+    this.listeners.clear();
+    MockBroadcastChannel.channels.delete(this);
+  }
+}
+
+// Minimal Web Locks API: grants each lock name to one holder at a time, in request order
+class MockLockManager {
+  private queues = new Map<string, Array<() => void>>();
+
+  request(name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>) {
+    return new Promise<void>((resolve, reject) => {
+      const queue = this.queues.get(name) ?? [];
+      this.queues.set(name, queue);
+
+      const grant = () => {
+        callback().then(() => {
+          queue.shift();
+          queue[0]?.();
+          resolve();
+        });
+      };
+
+      options.signal?.addEventListener('abort', () => {
+        const index = queue.indexOf(grant);
+        if (index > 0) {
+          queue.splice(index, 1);
+          reject(new DOMException('Aborted', 'AbortError'));
+        }
+      });
+
+      queue.push(grant);
+      if (queue.length === 1) {
+        grant();
+      }
+    });
+  }
+}
+
+// happy-dom's PageTransitionEvent does not implement `persisted`
+const pageTransition = (type: 'pagehide' | 'pageshow', persisted: boolean) =>
+  Object.assign(new Event(type), { persisted });
+
+describe('LeaderElection', () => {
+  let originalBroadcastChannel: any;
+  let services: BroadcastService[];
+  let elections: LeaderElection[];
+
+  // Each candidate runs in its own simulated tab
+  const createElection = (options = {}) => {
+    const broadcastService = new BroadcastService({ tabId: `tab-${services.length}` });
+    const election = new LeaderElection({
+      broadcastService,
+      useWebLocks: false,
+      heartbeatInterval: 100,
+      leaderTimeout: 300,
+      ...options,
+    });
+    services.push(broadcastService);
+    elections.push(election);
+    return election;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    originalBroadcastChannel = global.BroadcastChannel;
+    (global as any).BroadcastChannel = MockBroadcastChannel;
+    services = [];
+    elections = [];
+  });
+
+  afterEach(() => {
+    elections.forEach((election) => election.stop());
+    services.forEach((service) => service.closeAll());
+    global.BroadcastChannel = originalBroadcastChannel;
+    vi.useRealTimers();
+  });
+
+  describe('heartbeats', () => {
+    it('should become the leader when no other tab leads', () => {
+      const election = createElection();
+      election.start();
+
+      expect(election.isLeader()).toBe(false);
+
+      vi.advanceTimersByTime(400);
+
+      expect(election.isLeader()).toBe(true);
+    });
+
+    it('should follow an existing leader', () => {
+      const leader = createElection();
+      leader.start();
+      vi.advanceTimersByTime(400);
+
+      const follower = createElection();
+      follower.start();
+      vi.advanceTimersByTime(2000);
+
+      expect(leader.isLeader()).toBe(true);
+      expect(follower.isLeader()).toBe(false);
+    });
+
+    it('should take over when the leader stops sending heartbeats', () => {
+      const leader = createElection();
+      leader.start();
+      vi.advanceTimersByTime(400);
+
+      const follower = createElection();
+      follower.start();
+      vi.advanceTimersByTime(200);
+
+      // Simulate a crashed tab: no resign message, no more heartbeats
+      (leader as any).broadcastService.closeAll();
+      clearInterval((leader as any).timer);
+      vi.advanceTimersByTime(500);
+
+      expect(follower.isLeader()).toBe(true);
+    });
+
+    it('should hand over leadership right away when the leader stops', () => {
+      const leader = createElection();
+      leader.start();
+      vi.advanceTimersByTime(400);
+
+      const follower = createElection();
+      follower.start();
+      vi.advanceTimersByTime(200);
+
+      leader.stop();
+      vi.advanceTimersByTime(1);
+
+      expect(leader.isLeader()).toBe(false);
+      expect(follower.isLeader()).toBe(true);
+    });
+
+    it('should keep exactly one leader, the one with the lowest ID, after a tie', () => {
+      const candidates = [createElection(), createElection(), createElection()];
+      candidates.forEach((election) => election.start());
+
+      vi.advanceTimersByTime(1000);
+
+      const leaders = candidates.filter((election) => election.isLeader());
+      const lowestId = candidates.map((election) => election.candidateId).sort()[0];
+      expect(leaders).toHaveLength(1);
+      expect(leaders[0].candidateId).toBe(lowestId);
+    });
+
+    it('should elect one leader among elections sharing a broadcast service', () => {
+      const broadcastService = new BroadcastService({ tabId: 'shared-tab' });
+      services.push(broadcastService);
+      const candidates = [1, 2].map(() => {
+        const election = new LeaderElection({
+          broadcastService,
+          useWebLocks: false,
+          heartbeatInterval: 100,
+          leaderTimeout: 300,
+        });
+        elections.push(election);
+        return election;
+      });
+      candidates.forEach((election) => election.start());
+
+      vi.advanceTimersByTime(1000);
+
+      expect(candidates.filter((election) => election.isLeader())).toHaveLength(1);
+    });
+
+    it('should not compete with elections of another name', () => {
+      const polling = createElection({ name: 'polling' });
+      const sync = createElection({ name: 'sync' });
+      polling.start();
+      sync.start();
+
+      vi.advanceTimersByTime(1000);
+
+      expect(polling.isLeader()).toBe(true);
+      expect(sync.isLeader()).toBe(true);
+    });
+  });
+
+  describe('page lifecycle', () => {
+    it('should resign on pagehide', () => {
+      const election = createElection();
+      election.start();
+      vi.advanceTimersByTime(400);
+
+      window.dispatchEvent(pageTransition('pagehide', false));
+
+      expect(election.isLeader()).toBe(false);
+      window.dispatchEvent(pageTransition('pageshow', false));
+      vi.advanceTimersByTime(400);
+      expect(election.isLeader()).toBe(false);
+    });
+
+    it('should rejoin when the page is restored from the back/forward cache', () => {
+      const election = createElection();
+      election.start();
+      vi.advanceTimersByTime(400);
+
+      window.dispatchEvent(pageTransition('pagehide', true));
+      expect(election.isLeader()).toBe(false);
+
+      window.dispatchEvent(pageTransition('pageshow', true));
+      vi.advanceTimersByTime(400);
+
+      expect(election.isLeader()).toBe(true);
+    });
+
+    it('should not rejoin after an explicit stop', () => {
+      const election = createElection();
+      election.start();
+      window.dispatchEvent(pageTransition('pagehide', true));
+
+      election.stop();
+      window.dispatchEvent(pageTransition('pageshow', true));
+      vi.advanceTimersByTime(400);
+
+      expect(election.isLeader()).toBe(false);
+    });
+  });
+
+  describe('onLeadershipChange', () => {
+    it('should notify listeners when leadership changes', () => {
+      const listener = vi.fn();
+      const election = createElection();
+      election.onLeadershipChange(listener);
+
+      election.start();
+      vi.advanceTimersByTime(400);
+      election.stop();
+
+      expect(listener.mock.calls).toEqual([[true], [false]]);
+    });
+
+    it('should stop notifying after unsubscribe', () => {
+      const listener = vi.fn();
+      const election = createElection();
+      election.onLeadershipChange(listener).unsubscribe();
+
+      election.start();
+      vi.advanceTimersByTime(400);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Web Locks', () => {
+    beforeEach(() => {
+      vi.stubGlobal('navigator', { ...navigator, locks: new MockLockManager() });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should lead while holding the lock and hand it over on stop', async () => {
+      const first = createElection({ useWebLocks: true });
+      const second = createElection({ useWebLocks: true });
+
+      first.start();
+      second.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(first.isLeader()).toBe(true);
+      expect(second.isLeader()).toBe(false);
+
+      first.stop();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(first.isLeader()).toBe(false);
+      expect(second.isLeader()).toBe(true);
+    });
+
+    it('should not send heartbeats', () => {
+      const election = createElection({ useWebLocks: true });
+      const broadcastSpy = vi.spyOn(services[0], 'broadcast');
+
+      election.start();
+      vi.advanceTimersByTime(1000);
+
+      expect(broadcastSpy).not.toHaveBeenCalled();
+    });
+
+    it('should withdraw a pending lock request on stop', async () => {
+      const first = createElection({ useWebLocks: true });
+      const second = createElection({ useWebLocks: true });
+      first.start();
+      second.start();
+
+      second.stop();
+      first.stop();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(second.isLeader()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Presence } from '../src/core/Presence';
+import { BroadcastService } from '../src/core/BroadcastService';
+
+// Mock BroadcastChannel API (same as in EventBridge.test.ts)
+class MockBroadcastChannel {
+  static channels = new Set<MockBroadcastChannel>();
+
+  name: string;
+  private listeners: Set<(event: MessageEvent) => void> = new Set();
+
+  constructor(name: string) {
+    this.name = name;
+    MockBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: any) {
+    MockBroadcastChannel.channels.forEach((channel) => {
+      if (channel !== this && channel.name === this.name) {
+        const event = new MessageEvent('message', { data });
+        channel.listeners.forEach((listener) => {
+          setTimeout(() => listener(event), 0);
+        });
+      }
+    });
+  }
+
+  addEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.delete(listener);
+  }
+
+  close() {
+    this.listeners.clear();
+    MockBroadcastChannel.channels.delete(this);
+  }
+}
+
+// happy-dom's PageTransitionEvent does not implement `persisted`
+const pageTransition = (type: 'pagehide' | 'pageshow', persisted: boolean) =>
+  Object.assign(new Event(type), { persisted });
+
+describe('Presence', () => {
+  let originalBroadcastChannel: any;
+  let services: BroadcastService[];
+  let registries: Presence[];
+
+  // Each registry runs in its own simulated tab
+  const createPresence = (options = {}) => {
+    const broadcastService = new BroadcastService({ tabId: `tab-${services.length}` });
+    const presence = new Presence({
+      broadcastService,
+      heartbeatInterval: 100,
+      peerTimeout: 300,
+      ...options,
+    });
+    services.push(broadcastService);
+    registries.push(presence);
+    return presence;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    originalBroadcastChannel = global.BroadcastChannel;
+    (global as any).BroadcastChannel = MockBroadcastChannel;
+    services = [];
+    registries = [];
+  });
+
+  afterEach(() => {
+    registries.forEach((presence) => presence.stop());
+    services.forEach((service) => service.closeAll());
+    global.BroadcastChannel = originalBroadcastChannel;
+    vi.useRealTimers();
+  });
+
+  describe('discovery', () => {
+    it('should discover tabs that are already open', () => {
+      const first = createPresence({ metadata: { route: '/home' } });
+      first.start();
+      vi.advanceTimersByTime(1);
+
+      const second = createPresence({ metadata: { route: '/cart' } });
+      second.start();
+      vi.advanceTimersByTime(1);
+
+      expect(second.getPeers()).toEqual([
+        { id: 'tab-0', metadata: { route: '/home' }, lastSeen: expect.any(Number) },
+      ]);
+      expect(first.getPeers()).toEqual([
+        { id: 'tab-1', metadata: { route: '/cart' }, lastSeen: expect.any(Number) },
+      ]);
+    });
+
+    it('should not list its own tab', () => {
+      const presence = createPresence();
+      presence.start();
+      vi.advanceTimersByTime(1000);
+
+      expect(presence.id).toBe('tab-0');
+      expect(presence.getPeers()).toEqual([]);
+    });
+
+    it('should only see peers using the same name', () => {
+      const first = createPresence({ name: 'editor' });
+      const second = createPresence({ name: 'viewer' });
+      first.start();
+      second.start();
+      vi.advanceTimersByTime(1);
+
+      expect(first.getPeers()).toEqual([]);
+      expect(second.getPeers()).toEqual([]);
+    });
+  });
+
+  describe('peer events', () => {
+    it('should emit join and leave events', () => {
+      const join = vi.fn();
+      const leave = vi.fn();
+      const first = createPresence();
+      first.onPeerJoin(join);
+      first.onPeerLeave(leave);
+      first.start();
+
+      const second = createPresence();
+      second.start();
+      vi.advanceTimersByTime(1);
+      expect(join).toHaveBeenCalledWith(expect.objectContaining({ id: 'tab-1' }));
+
+      second.stop();
+      vi.advanceTimersByTime(1);
+      expect(leave).toHaveBeenCalledWith(expect.objectContaining({ id: 'tab-1' }));
+      expect(first.getPeers()).toEqual([]);
+    });
+
+    it('should join each peer once despite repeated announcements', () => {
+      const join = vi.fn();
+      const first = createPresence();
+      first.onPeerJoin(join);
+      first.start();
+      createPresence().start();
+
+      vi.advanceTimersByTime(1000);
+
+      expect(join).toHaveBeenCalledTimes(1);
+    });
+
+    it('should announce metadata changes to peers', () => {
+      const update = vi.fn();
+      const first = createPresence();
+      first.onPeerUpdate(update);
+      first.start();
+      const second = createPresence({ metadata: { visible: true } });
+      second.start();
+      vi.advanceTimersByTime(1);
+
+      second.setMetadata((current) => ({ ...current, visible: false }));
+      vi.advanceTimersByTime(1);
+
+      expect(second.getMetadata()).toEqual({ visible: false });
+      expect(update).toHaveBeenCalledTimes(1);
+      expect(first.getPeers()[0].metadata).toEqual({ visible: false });
+    });
+
+    it('should drop peers that stop announcing', () => {
+      const leave = vi.fn();
+      const first = createPresence();
+      first.onPeerLeave(leave);
+      first.start();
+      const second = createPresence();
+      second.start();
+      vi.advanceTimersByTime(1);
+
+      // Simulate a crashed tab: no leave message, no more announcements
+      services[1].closeAll();
+      clearInterval((second as any).timer);
+      vi.advanceTimersByTime(500);
+
+      expect(leave).toHaveBeenCalledWith(expect.objectContaining({ id: 'tab-1' }));
+      expect(first.getPeers()).toEqual([]);
+    });
+
+    it('should announce departure on pagehide', () => {
+      const presence = createPresence();
+      presence.start();
+      const broadcastSpy = vi.spyOn(services[0], 'broadcast');
+
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(broadcastSpy).toHaveBeenCalledWith('presence:default', { kind: 'leave' });
+    });
+
+    it('should announce itself again when restored from the back/forward cache', () => {
+      const first = createPresence();
+      const second = createPresence();
+      first.start();
+      second.start();
+      vi.advanceTimersByTime(1);
+
+      window.dispatchEvent(pageTransition('pagehide', true));
+      vi.advanceTimersByTime(1);
+      expect(first.getPeers()).toEqual([]);
+
+      window.dispatchEvent(pageTransition('pageshow', true));
+      vi.advanceTimersByTime(1);
+
+      expect(first.getPeers().map((peer) => peer.id)).toEqual([second.id]);
+      expect(second.getPeers().map((peer) => peer.id)).toEqual([first.id]);
+    });
+
+    it('should forget peers with leave events on stop', () => {
+      const leave = vi.fn();
+      const first = createPresence();
+      first.onPeerLeave(leave);
+      first.start();
+      createPresence().start();
+      vi.advanceTimersByTime(1);
+
+      first.stop();
+
+      expect(leave).toHaveBeenCalledTimes(1);
+      expect(first.getPeers()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BroadcastService } from '../src/core/BroadcastService';
+import { isServer } from '../src/core/environment';
+import { EventService } from '../src/core/EventService';
+import { NoopTransport } from '../src/core/transports';
+import { useBroadcast, useBroadcastOn } from '../src/react/useBroadcast';
+import { useEventEmit } from '../src/react/useEventEmit';
+import { useEventOn } from '../src/react/useEventOn';
+import { useEventState } from '../src/react/useEventState';
+import { useSharedState } from '../src/react/useSharedState';
+
+describe('server-side rendering', () => {
+  beforeEach(() => {
+    // Node has neither a DOM window nor a worker global scope
+    vi.stubGlobal('window', undefined);
+    vi.stubGlobal('self', undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should detect the server', () => {
+    expect(isServer()).toBe(true);
+    vi.unstubAllGlobals();
+    expect(isServer()).toBe(false);
+  });
+
+  it('should use a no-op transport on the server', () => {
+    const service = new BroadcastService({ tabId: 'server' });
+    const callback = vi.fn();
+
+    expect((service as any).transport).toBeInstanceOf(NoopTransport);
+    expect(() => {
+      service.subscribe('test-channel', callback);
+      service.broadcast('test-channel', 'test');
+    }).not.toThrow();
+    expect(callback).not.toHaveBeenCalled();
+
+    service.closeAll();
+  });
+
+  it('should render hooks with their initial values without touching the services', () => {
+    const eventService = new EventService();
+    eventService.setSticky('user');
+    eventService.emit('user', { name: 'Kim' });
+    const broadcastService = new BroadcastService({ tabId: 'server' });
+    const emitSpy = vi.spyOn(eventService, 'emit');
+    const onSpy = vi.spyOn(eventService, 'on');
+    const broadcastSpy = vi.spyOn(broadcastService, 'broadcast');
+    const subscribeSpy = vi.spyOn(broadcastService, 'subscribe');
+
+    function Page() {
+      const user = useEventState('user', { name: 'Guest' }, eventService, {
+        initializeFromLast: true,
+      });
+      const [theme] = useSharedState('theme', 'light', broadcastService);
+      const emit = useEventEmit(eventService);
+      const broadcast = useBroadcast(broadcastService);
+      useEventOn('user', () => {}, eventService);
+      useBroadcastOn('theme', () => {}, broadcastService);
+
+      // Calling these while rendering on the server does nothing
+      emit('page:render', {});
+      broadcast('page:render', {});
+
+      return (
+        <p>
+          {user.name} / {theme}
+        </p>
+      );
+    }
+
+    expect(renderToString(<Page />)).toBe('<p>Guest<!-- --> / <!-- -->light</p>');
+    expect(emitSpy).not.toHaveBeenCalled();
+    expect(onSpy).not.toHaveBeenCalled();
+    expect(broadcastSpy).not.toHaveBeenCalled();
+    expect(subscribeSpy).not.toHaveBeenCalled();
+
+    broadcastService.closeAll();
+  });
+});
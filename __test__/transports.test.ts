@@ -0,0 +1,432 @@
+import { BroadcastChannel as NodeBroadcastChannel } from 'node:worker_threads';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { BroadcastService } from '../src/core/BroadcastService';
+import { createEventBridge } from '../src/core/EventBridge';
+import { EventService } from '../src/core/EventService';
+import {
+  InMemoryTransport,
+  LocalStorageTransport,
+  MessagePortTransport,
+  NodeBroadcastChannelTransport,
+} from '../src/core/transports';
+import type { Transport, TransportChannel } from '../src/types/events';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+// Message ports deliver in a later task than timers scheduled at the same time
+const waitForPorts = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('InMemoryTransport', () => {
+  it('should deliver messages to other connections of the same channel', async () => {
+    const transport = new InMemoryTransport();
+    const sender = transport.open('test-channel');
+    const receiver = transport.open('test-channel');
+    const other = transport.open('other-channel');
+    const received = vi.fn();
+    const own = vi.fn();
+    const unrelated = vi.fn();
+    receiver.onMessage(received);
+    sender.onMessage(own);
+    other.onMessage(unrelated);
+
+    sender.post({ data: 'test' });
+    expect(received).not.toHaveBeenCalled();
+    await flush();
+
+    expect(received).toHaveBeenCalledWith({ data: 'test' });
+    expect(own).not.toHaveBeenCalled();
+    expect(unrelated).not.toHaveBeenCalled();
+  });
+
+  it('should copy messages', async () => {
+    const transport = new InMemoryTransport();
+    const sender = transport.open('test-channel');
+    const receiver = transport.open('test-channel');
+    const received = vi.fn();
+    receiver.onMessage(received);
+
+    const message = { items: [1, 2] };
+    sender.post(message);
+    await flush();
+
+    expect(received.mock.calls[0][0]).toEqual(message);
+    expect(received.mock.calls[0][0]).not.toBe(message);
+  });
+
+  it('should stop delivering after the listener is removed or the connection closed', async () => {
+    const transport = new InMemoryTransport();
+    const sender = transport.open('test-channel');
+    const first = transport.open('test-channel');
+    const second = transport.open('test-channel');
+    const firstListener = vi.fn();
+    const secondListener = vi.fn();
+    const stop = first.onMessage(firstListener);
+    second.onMessage(secondListener);
+
+    sender.post('queued');
+    stop();
+    second.close();
+    sender.post('after');
+    await flush();
+
+    expect(firstListener).not.toHaveBeenCalled();
+    expect(secondListener).not.toHaveBeenCalled();
+  });
+});
+
+describe('LocalStorageTransport', () => {
+  const connections: TransportChannel[] = [];
+  const open = (transport: LocalStorageTransport, channelName: string) => {
+    const connection = transport.open(channelName);
+    connections.push(connection);
+    return connection;
+  };
+
+  // Storage events are only fired in other tabs, so they are dispatched by hand
+  const receiveFromOtherTab = (key: string, value: unknown) => {
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key,
+        newValue: typeof value === 'string' ? value : JSON.stringify(value),
+        storageArea: localStorage,
+      })
+    );
+  };
+
+  afterEach(() => {
+    connections.splice(0).forEach((connection) => connection.close());
+    localStorage.clear();
+  });
+
+  it('should deliver messages written by other tabs', () => {
+    const connection = open(new LocalStorageTransport(), 'test-channel');
+    const listener = vi.fn();
+    connection.onMessage(listener);
+
+    const stored = { id: 'm1', timestamp: Date.now(), message: { data: 'test' } };
+    receiveFromOtherTab('broadcast-event-system:test-channel:m1', stored);
+
+    expect(listener).toHaveBeenCalledWith({ data: 'test' });
+  });
+
+  it('should ignore other channels, removals, invalid values and duplicates', () => {
+    const connection = open(new LocalStorageTransport(), 'test-channel');
+    const listener = vi.fn();
+    connection.onMessage(listener);
+
+    const stored = { id: 'm1', timestamp: Date.now(), message: 'test' };
+    receiveFromOtherTab('broadcast-event-system:other-channel:m1', stored);
+    receiveFromOtherTab('broadcast-event-system:test-channel:nested:m1', stored);
+    receiveFromOtherTab('broadcast-event-system:test-channel:m2', 'not json');
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: 'broadcast-event-system:test-channel:m1',
+        newValue: null,
+        storageArea: localStorage,
+      })
+    );
+    expect(listener).not.toHaveBeenCalled();
+
+    receiveFromOtherTab('broadcast-event-system:test-channel:m1', stored);
+    receiveFromOtherTab('broadcast-event-system:test-channel:m1', stored);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should write each message to its own key and remove it right away', () => {
+    const setItemSpy = vi.spyOn(Storage.prototype, 'setItem');
+    const connection = open(new LocalStorageTransport({ keyPrefix: 'app:' }), 'test-channel');
+
+    connection.post({ data: 'test' });
+
+    expect(setItemSpy).toHaveBeenCalledTimes(1);
+    const [key, value] = setItemSpy.mock.calls[0];
+    const stored = JSON.parse(value);
+    expect(key).toBe(`app:test-channel:${stored.id}`);
+    expect(stored.message).toEqual({ data: 'test' });
+    expect(localStorage.getItem(key)).toBeNull();
+
+    setItemSpy.mockRestore();
+  });
+
+  it('should deliver to other connections in this tab but not to itself', async () => {
+    const transport = new LocalStorageTransport();
+    const sender = open(transport, 'test-channel');
+    const receiver = open(new LocalStorageTransport(), 'test-channel');
+    const own = vi.fn();
+    const received = vi.fn();
+    sender.onMessage(own);
+    receiver.onMessage(received);
+
+    sender.post({ data: 'test' });
+    await flush();
+
+    expect(received).toHaveBeenCalledWith({ data: 'test' });
+    expect(own).not.toHaveBeenCalled();
+  });
+
+  it('should remove stale messages left in storage', () => {
+    const now = Date.now();
+    localStorage.setItem(
+      'broadcast-event-system:test-channel:old',
+      JSON.stringify({ id: 'old', timestamp: now - 10000, message: 'old' })
+    );
+    localStorage.setItem(
+      'broadcast-event-system:test-channel:new',
+      JSON.stringify({ id: 'new', timestamp: now, message: 'new' })
+    );
+    localStorage.setItem('unrelated', 'kept');
+
+    open(new LocalStorageTransport(), 'test-channel');
+
+    expect(localStorage.getItem('broadcast-event-system:test-channel:old')).toBeNull();
+    expect(localStorage.getItem('broadcast-event-system:test-channel:new')).not.toBeNull();
+    expect(localStorage.getItem('unrelated')).toBe('kept');
+  });
+
+  it('should be used by BroadcastService when BroadcastChannel is undefined', async () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const tabA = new BroadcastService({ tabId: 'tab-a' });
+    const tabB = new BroadcastService({ tabId: 'tab-b' });
+    const callback = vi.fn();
+
+    try {
+      tabB.subscribe('test-channel', callback);
+      tabA.broadcast('test-channel', { data: 'test' });
+      await flush();
+
+      expect(callback).toHaveBeenCalledWith(
+        { data: 'test' },
+        expect.objectContaining({ senderId: 'tab-a' })
+      );
+    } finally {
+      tabA.closeAll();
+      tabB.closeAll();
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe('MessagePortTransport', () => {
+  const ports: MessagePort[] = [];
+  const services: BroadcastService<any>[] = [];
+  const createChannel = () => {
+    const channel = new MessageChannel();
+    ports.push(channel.port1, channel.port2);
+    return channel;
+  };
+  const createService = (transport: MessagePortTransport | InMemoryTransport, tabId: string) => {
+    const service = new BroadcastService({ transport, tabId });
+    services.push(service);
+    return service;
+  };
+
+  afterEach(() => {
+    services.splice(0).forEach((service) => service.closeAll());
+    ports.splice(0).forEach((port) => port.close());
+  });
+
+  it('should connect services on both ends of a port', async () => {
+    const { port1, port2 } = createChannel();
+    const main = createService(new MessagePortTransport(port1), 'main');
+    const worker = createService(new MessagePortTransport(port2), 'worker');
+    const mainCallback = vi.fn();
+    const workerCallback = vi.fn();
+    main.subscribe('progress', mainCallback);
+    worker.subscribe('command', workerCallback);
+
+    worker.broadcast('progress', 0.5);
+    main.broadcast('command', 'start');
+    await waitForPorts();
+
+    expect(mainCallback).toHaveBeenCalledWith(0.5, expect.objectContaining({ senderId: 'worker' }));
+    expect(workerCallback).toHaveBeenCalledWith(
+      'start',
+      expect.objectContaining({ senderId: 'main' })
+    );
+  });
+
+  it('should ignore messages not sent by a transport', async () => {
+    const { port1, port2 } = createChannel();
+    const worker = createService(new MessagePortTransport(port2), 'worker');
+    const callback = vi.fn();
+    worker.subscribe('command', callback);
+
+    port1.postMessage({ channelName: 'command', message: 'raw' });
+    await waitForPorts();
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should stop receiving from a disconnected endpoint', async () => {
+    const { port1, port2 } = createChannel();
+    const transport = new MessagePortTransport();
+    const disconnect = transport.connect(port2);
+    const main = createService(new MessagePortTransport(port1), 'main');
+    const worker = createService(transport, 'worker');
+    const callback = vi.fn();
+    worker.subscribe('command', callback);
+
+    disconnect();
+    main.broadcast('command', 'start');
+    await waitForPorts();
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should bridge endpoints to another transport in both directions', async () => {
+    const { port1, port2 } = createChannel();
+    const tabs = new InMemoryTransport();
+    createService(new MessagePortTransport(port1, { transport: tabs }), 'main');
+    const worker = createService(new MessagePortTransport(port2), 'worker');
+    const otherTab = createService(tabs, 'other-tab');
+    const workerCallback = vi.fn();
+    const otherTabCallback = vi.fn();
+    otherTab.subscribe('progress', otherTabCallback);
+    // Announces the channel, so the main thread forwards it from other tabs
+    worker.subscribe('command', workerCallback);
+    await waitForPorts();
+
+    worker.broadcast('progress', 0.5);
+    otherTab.broadcast('command', 'start');
+    await waitForPorts();
+
+    expect(otherTabCallback).toHaveBeenCalledWith(
+      0.5,
+      expect.objectContaining({ senderId: 'worker' })
+    );
+    expect(workerCallback).toHaveBeenCalledWith(
+      'start',
+      expect.objectContaining({ senderId: 'other-tab' })
+    );
+  });
+
+  it('should relay between endpoints of a hub', async () => {
+    const first = createChannel();
+    const second = createChannel();
+    const hubTransport = new MessagePortTransport([], { relay: true });
+    hubTransport.connect(first.port2);
+    hubTransport.connect(second.port2);
+    const hub = createService(hubTransport, 'hub');
+    const tabA = createService(new MessagePortTransport(first.port1), 'tab-a');
+    const tabB = createService(new MessagePortTransport(second.port1), 'tab-b');
+    const hubCallback = vi.fn();
+    const tabBCallback = vi.fn();
+    hub.subscribe('test-channel', hubCallback);
+    tabB.subscribe('test-channel', tabBCallback);
+
+    tabA.broadcast('test-channel', 'hello');
+    await waitForPorts();
+
+    expect(hubCallback).toHaveBeenCalledWith('hello', expect.any(Object));
+    expect(tabBCallback).toHaveBeenCalledWith('hello', expect.any(Object));
+  });
+
+  it('should carry an event bridge between the main thread and a worker', async () => {
+    const { port1, port2 } = createChannel();
+    const mainEvents = new EventService();
+    const workerEvents = new EventService();
+    const main = createService(new MessagePortTransport(port1), 'main');
+    const worker = createService(new MessagePortTransport(port2), 'worker');
+    const mainBridge = createEventBridge({
+      eventService: mainEvents,
+      broadcastService: main,
+      eventTypes: ['job:*'],
+    });
+    const workerBridge = createEventBridge({
+      eventService: workerEvents,
+      broadcastService: worker,
+      eventTypes: ['job:*'],
+    });
+    const listener = vi.fn();
+    workerEvents.on('job:start', listener);
+
+    mainEvents.emit('job:start', { id: 1 });
+    await waitForPorts();
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'job:start', data: { id: 1 } })
+    );
+
+    mainBridge.unsubscribe();
+    workerBridge.unsubscribe();
+  });
+});
+
+describe('NodeBroadcastChannelTransport', () => {
+  it('should connect services through worker_threads channels', async () => {
+    const transport = new NodeBroadcastChannelTransport(NodeBroadcastChannel);
+    const main = new BroadcastService({ transport, tabId: 'main' });
+    const worker = new BroadcastService({ transport, tabId: 'worker' });
+    const callback = vi.fn();
+
+    try {
+      worker.subscribe('job:done', callback);
+      main.broadcast('job:done', { id: 1 });
+      await waitForPorts();
+
+      expect(callback).toHaveBeenCalledWith(
+        { id: 1 },
+        expect.objectContaining({ senderId: 'main' })
+      );
+    } finally {
+      main.closeAll();
+      worker.closeAll();
+    }
+  });
+});
+
+describe('BroadcastService with a transport', () => {
+  const services: BroadcastService<any>[] = [];
+  const createService = (transport: Transport, tabId: string) => {
+    const service = new BroadcastService({ transport, tabId });
+    services.push(service);
+    return service;
+  };
+
+  afterEach(() => {
+    services.splice(0).forEach((service) => service.closeAll());
+  });
+
+  it('should send messages through the injected transport', async () => {
+    const transport = new InMemoryTransport();
+    const tabA = createService(transport, 'tab-a');
+    const tabB = createService(transport, 'tab-b');
+    const callback = vi.fn();
+    tabB.subscribe('test-channel', callback);
+
+    tabA.broadcast('test-channel', { data: 'test' });
+    await flush();
+
+    expect(callback).toHaveBeenCalledWith(
+      { data: 'test' },
+      expect.objectContaining({ senderId: 'tab-a' })
+    );
+  });
+
+  it('should open each channel once and close it with the service', () => {
+    const channel: TransportChannel = {
+      post: vi.fn(),
+      onMessage: vi.fn(() => () => {}),
+      close: vi.fn(),
+    };
+    const transport: Transport = { open: vi.fn(() => channel) };
+    const service = createService(transport, 'tab-a');
+
+    service.subscribe('test-channel', vi.fn());
+    service.broadcast('test-channel', 'test');
+    service.close('test-channel');
+
+    expect(transport.open).toHaveBeenCalledTimes(1);
+    expect(transport.open).toHaveBeenCalledWith('test-channel');
+    expect(channel.post).toHaveBeenCalledWith(expect.objectContaining({ data: 'test' }));
+    expect(channel.close).toHaveBeenCalled();
+  });
+
+  it('should support RPC between services sharing a transport', async () => {
+    const transport = new InMemoryTransport();
+    const tabA = createService(transport, 'tab-a');
+    const tabB = createService(transport, 'tab-b');
+    tabB.handle('math', 'double', (value: number) => value * 2);
+
+    await expect(tabA.request('math', 'double', 21, { timeout: 100 })).resolves.toBe(42);
+  });
+});
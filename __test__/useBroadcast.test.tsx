@@ -74,7 +74,7 @@ describe('useBroadcast', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(callback).toHaveBeenCalledWith({ message: 'Hello' });
+      expect(callback).toHaveBeenCalledWith({ message: 'Hello' }, expect.any(Object));
     });
 
     it('should broadcast to multiple subscribers', async () => {
@@ -91,9 +91,9 @@ describe('useBroadcast', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(callback1).toHaveBeenCalledWith({ data: 'test' });
-      expect(callback2).toHaveBeenCalledWith({ data: 'test' });
-      expect(callback3).toHaveBeenCalledWith({ data: 'test' });
+      expect(callback1).toHaveBeenCalledWith({ data: 'test' }, expect.any(Object));
+      expect(callback2).toHaveBeenCalledWith({ data: 'test' }, expect.any(Object));
+      expect(callback3).toHaveBeenCalledWith({ data: 'test' }, expect.any(Object));
     });
 
     it('should use default broadcastService when service not provided', async () => {
@@ -107,7 +107,7 @@ describe('useBroadcast', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(callback).toHaveBeenCalledWith({ data: 'test' });
+      expect(callback).toHaveBeenCalledWith({ data: 'test' }, expect.any(Object));
 
       // Cleanup
       broadcastService.close('default-channel');
@@ -181,7 +181,7 @@ describe('useBroadcast', () => {
 
       expect(callback).toHaveBeenCalledTimes(testData.length);
       testData.forEach((data, index) => {
-        expect(callback).toHaveBeenNthCalledWith(index + 1, data);
+        expect(callback).toHaveBeenNthCalledWith(index + 1, data, expect.any(Object));
       });
     });
   });
@@ -196,7 +196,22 @@ describe('useBroadcast', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(callback).toHaveBeenCalledWith({ message: 'Hello' });
+      expect(callback).toHaveBeenCalledWith({ message: 'Hello' }, expect.any(Object));
+    });
+
+    it('should pass message metadata to the callback', async () => {
+      const callback = vi.fn();
+
+      renderHook(() => useBroadcastOn('test-channel', callback, mockService));
+
+      mockService.broadcast('test-channel', { message: 'Hello' });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(callback).toHaveBeenCalledWith(
+        { message: 'Hello' },
+        expect.objectContaining({ senderId: mockService.tabId, seq: 1 })
+      );
     });
 
     it('should unsubscribe on unmount', async () => {
@@ -227,7 +242,7 @@ describe('useBroadcast', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(callback).toHaveBeenCalledWith({ data: 'test' });
+      expect(callback).toHaveBeenCalledWith({ data: 'test' }, expect.any(Object));
 
       // Cleanup
       broadcastService.close('default-channel');
@@ -245,9 +260,9 @@ describe('useBroadcast', () => {
       await new Promise((resolve) => setTimeout(resolve, 20));
 
       expect(callback).toHaveBeenCalledTimes(3);
-      expect(callback).toHaveBeenNthCalledWith(1, { count: 1 });
-      expect(callback).toHaveBeenNthCalledWith(2, { count: 2 });
-      expect(callback).toHaveBeenNthCalledWith(3, { count: 3 });
+      expect(callback).toHaveBeenNthCalledWith(1, { count: 1 }, expect.any(Object));
+      expect(callback).toHaveBeenNthCalledWith(2, { count: 2 }, expect.any(Object));
+      expect(callback).toHaveBeenNthCalledWith(3, { count: 3 }, expect.any(Object));
     });
 
     it('should resubscribe when channelName changes', async () => {
@@ -270,13 +285,14 @@ describe('useBroadcast', () => {
       await new Promise((resolve) => setTimeout(resolve, 10));
 
       expect(callback).toHaveBeenCalledTimes(2);
-      expect(callback).toHaveBeenNthCalledWith(1, { data: 'first' });
-      expect(callback).toHaveBeenNthCalledWith(2, { data: 'second' });
+      expect(callback).toHaveBeenNthCalledWith(1, { data: 'first' }, expect.any(Object));
+      expect(callback).toHaveBeenNthCalledWith(2, { data: 'second' }, expect.any(Object));
     });
 
-    it('should resubscribe when callback changes', async () => {
+    it('should call the latest callback without resubscribing', async () => {
       const callback1 = vi.fn();
       const callback2 = vi.fn();
+      const subscribeSpy = vi.spyOn(mockService, 'subscribe');
 
       const { rerender } = renderHook(
         ({ callback }) => useBroadcastOn('test-channel', callback, mockService),
@@ -294,6 +310,42 @@ describe('useBroadcast', () => {
 
       expect(callback1).toHaveBeenCalledTimes(1); // Not called again
       expect(callback2).toHaveBeenCalledTimes(1);
+      expect(subscribeSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not resubscribe for an inline callback on every render', () => {
+      const subscribeSpy = vi.spyOn(mockService, 'subscribe');
+
+      const { rerender } = renderHook(() =>
+        useBroadcastOn('test-channel', (data) => data, mockService)
+      );
+      rerender();
+      rerender();
+
+      expect(subscribeSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only subscribe while enabled', async () => {
+      const callback = vi.fn();
+      const subscribeSpy = vi.spyOn(mockService, 'subscribe');
+      const unsubscribeSpy = vi.spyOn(mockService, 'unsubscribe');
+
+      const { rerender } = renderHook(
+        ({ enabled }) => useBroadcastOn('test-channel', callback, mockService, { enabled }),
+        { initialProps: { enabled: false } }
+      );
+      expect(subscribeSpy).not.toHaveBeenCalled();
+
+      rerender({ enabled: true });
+      mockService.broadcast('test-channel', { data: 'enabled' });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(callback).toHaveBeenCalledWith({ data: 'enabled' }, expect.any(Object));
+
+      rerender({ enabled: false });
+      expect(unsubscribeSpy).toHaveBeenCalledTimes(1);
+      mockService.broadcast('test-channel', { data: 'paused' });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(callback).toHaveBeenCalledTimes(1);
     });
 
     it('should resubscribe when service changes', async () => {
@@ -318,8 +370,8 @@ describe('useBroadcast', () => {
       await new Promise((resolve) => setTimeout(resolve, 10));
 
       expect(callback).toHaveBeenCalledTimes(2);
-      expect(callback).toHaveBeenNthCalledWith(1, { data: 'service1' });
-      expect(callback).toHaveBeenNthCalledWith(2, { data: 'service2' });
+      expect(callback).toHaveBeenNthCalledWith(1, { data: 'service1' }, expect.any(Object));
+      expect(callback).toHaveBeenNthCalledWith(2, { data: 'service2' }, expect.any(Object));
 
       service1.closeAll();
       service2.closeAll();
@@ -363,7 +415,7 @@ describe('useBroadcast', () => {
 
       expect(callback).toHaveBeenCalledTimes(testData.length);
       testData.forEach((data, index) => {
-        expect(callback).toHaveBeenNthCalledWith(index + 1, data);
+        expect(callback).toHaveBeenNthCalledWith(index + 1, data, expect.any(Object));
       });
     });
   });
@@ -382,7 +434,7 @@ describe('useBroadcast', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(callback).toHaveBeenCalledWith({ message: 'Hello from broadcast!' });
+      expect(callback).toHaveBeenCalledWith({ message: 'Hello from broadcast!' }, expect.any(Object));
     });
 
     it('should support bidirectional communication', async () => {
@@ -399,8 +451,8 @@ describe('useBroadcast', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(callback1).toHaveBeenCalledWith({ from: 'sender1' });
-      expect(callback2).toHaveBeenCalledWith({ from: 'sender2' });
+      expect(callback1).toHaveBeenCalledWith({ from: 'sender1' }, expect.any(Object));
+      expect(callback2).toHaveBeenCalledWith({ from: 'sender2' }, expect.any(Object));
     });
 
     it('should support multiple listeners on the same channel', async () => {
@@ -418,9 +470,39 @@ describe('useBroadcast', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(callback1).toHaveBeenCalledWith({ data: 'broadcast to all' });
-      expect(callback2).toHaveBeenCalledWith({ data: 'broadcast to all' });
-      expect(callback3).toHaveBeenCalledWith({ data: 'broadcast to all' });
+      expect(callback1).toHaveBeenCalledWith({ data: 'broadcast to all' }, expect.any(Object));
+      expect(callback2).toHaveBeenCalledWith({ data: 'broadcast to all' }, expect.any(Object));
+      expect(callback3).toHaveBeenCalledWith({ data: 'broadcast to all' }, expect.any(Object));
+    });
+
+    it('should deliver locally and honor excludeSelf', async () => {
+      const callback = vi.fn();
+      const excluded = vi.fn();
+
+      renderHook(() => useBroadcastOn('local', callback, mockService));
+      renderHook(() => useBroadcastOn('local', excluded, mockService, { excludeSelf: true }));
+
+      const { result: broadcast } = renderHook(() => useBroadcast(mockService));
+
+      broadcast.current('local', { data: 'this tab too' }, { local: true });
+      expect(callback).toHaveBeenCalledWith({ data: 'this tab too' }, expect.any(Object));
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(excluded).not.toHaveBeenCalled();
+    });
+
+    it('should receive own broadcasts synchronously with includeSelf', () => {
+      const callback = vi.fn();
+
+      renderHook(() => useBroadcastOn('self', callback, mockService, { includeSelf: true }));
+
+      const { result: broadcast } = renderHook(() => useBroadcast(mockService));
+
+      broadcast.current('self', { data: 'own' });
+
+      expect(callback).toHaveBeenCalledWith({ data: 'own' }, expect.any(Object));
     });
   });
 });
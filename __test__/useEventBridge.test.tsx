@@ -0,0 +1,166 @@
+import React from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { useEventBridge, EventBridgeProvider } from '../src/react/useEventBridge';
+import { BroadcastService } from '../src/core/BroadcastService';
+import { EventService } from '../src/core/EventService';
+
+// Mock BroadcastChannel API (same as in EventBridge.test.ts)
+class MockBroadcastChannel {
+  static channels = new Set<MockBroadcastChannel>();
+
+  name: string;
+  private listeners: Set<(event: MessageEvent) => void> = new Set();
+
+  constructor(name: string) {
+    this.name = name;
+    MockBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: any) {
+    MockBroadcastChannel.channels.forEach((channel) => {
+      if (channel !== this && channel.name === this.name) {
+        const event = new MessageEvent('message', { data });
+        channel.listeners.forEach((listener) => {
+          setTimeout(() => listener(event), 0);
+        });
+      }
+    });
+  }
+
+  addEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.delete(listener);
+  }
+
+  close() {
+    this.listeners.clear();
+    MockBroadcastChannel.channels.delete(this);
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('useEventBridge', () => {
+  let originalBroadcastChannel: any;
+  let localEvents: EventService;
+  let localBroadcast: BroadcastService;
+  let remoteEvents: EventService;
+  let remoteBroadcast: BroadcastService;
+
+  beforeEach(() => {
+    originalBroadcastChannel = global.BroadcastChannel;
+    (global as any).BroadcastChannel = MockBroadcastChannel;
+
+    localEvents = new EventService();
+    localBroadcast = new BroadcastService({ tabId: 'local-tab' });
+    remoteEvents = new EventService();
+    remoteBroadcast = new BroadcastService({ tabId: 'remote-tab' });
+  });
+
+  afterEach(() => {
+    localBroadcast.closeAll();
+    remoteBroadcast.closeAll();
+    global.BroadcastChannel = originalBroadcastChannel;
+  });
+
+  it('should mirror events while mounted', async () => {
+    const listener = vi.fn();
+    remoteBroadcast.subscribe('event-bridge', listener);
+
+    const { unmount } = renderHook(() =>
+      useEventBridge({
+        eventService: localEvents,
+        broadcastService: localBroadcast,
+        eventTypes: ['cart:*'],
+      })
+    );
+
+    localEvents.emit('cart:updated', 1);
+    await flush();
+    expect(listener).toHaveBeenCalledWith({ type: 'cart:updated', data: 1 }, expect.any(Object));
+
+    unmount();
+
+    localEvents.emit('cart:updated', 2);
+    await flush();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit events received from another tab', async () => {
+    const listener = vi.fn();
+    localEvents.on('cart:updated', listener);
+
+    renderHook(() =>
+      useEventBridge({
+        eventService: localEvents,
+        broadcastService: localBroadcast,
+        eventTypes: ['cart:*'],
+      })
+    );
+
+    remoteBroadcast.broadcast('event-bridge', { type: 'cart:updated', data: 1 });
+    await flush();
+
+    expect(listener).toHaveBeenCalledWith({ type: 'cart:updated', data: 1 });
+  });
+
+  it('should not recreate the bridge for an equal inline eventTypes array', () => {
+    const subscribeSpy = vi.spyOn(localBroadcast, 'subscribe');
+
+    const { rerender } = renderHook(() =>
+      useEventBridge({
+        eventService: localEvents,
+        broadcastService: localBroadcast,
+        eventTypes: ['cart:*'],
+      })
+    );
+    rerender();
+
+    expect(subscribeSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should recreate the bridge when eventTypes change', async () => {
+    const listener = vi.fn();
+    remoteBroadcast.subscribe('event-bridge', listener);
+
+    const { rerender } = renderHook(
+      ({ eventTypes }) =>
+        useEventBridge({ eventService: localEvents, broadcastService: localBroadcast, eventTypes }),
+      { initialProps: { eventTypes: ['cart:*'] } }
+    );
+    rerender({ eventTypes: ['user:*'] });
+
+    localEvents.emit('cart:updated', 1);
+    localEvents.emit('user:login', 2);
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'user:login', data: 2 }, expect.any(Object));
+  });
+
+  it('should be usable through EventBridgeProvider', async () => {
+    const listener = vi.fn();
+    remoteBroadcast.subscribe('event-bridge', listener);
+
+    render(
+      <EventBridgeProvider
+        eventService={localEvents}
+        broadcastService={localBroadcast}
+        eventTypes={['cart:*']}
+      >
+        <div>App</div>
+      </EventBridgeProvider>
+    );
+
+    expect(screen.getByText('App')).toBeInTheDocument();
+
+    localEvents.emit('cart:updated', 1);
+    await flush();
+
+    expect(listener).toHaveBeenCalledWith({ type: 'cart:updated', data: 1 }, expect.any(Object));
+  });
+});
@@ -84,8 +84,8 @@ describe('useEventEmit', () => {
 
       // String data
       const stringListener = vi.fn();
-      mockService.on<string>('string-event', stringListener);
-      result.current<string>('string-event', 'test string');
+      mockService.on('string-event', stringListener);
+      result.current('string-event', 'test string');
       expect(stringListener).toHaveBeenCalledWith({
         type: 'string-event',
         data: 'test string',
@@ -93,8 +93,8 @@ describe('useEventEmit', () => {
 
       // Number data
       const numberListener = vi.fn();
-      mockService.on<number>('number-event', numberListener);
-      result.current<number>('number-event', 42);
+      mockService.on('number-event', numberListener);
+      result.current('number-event', 42);
       expect(numberListener).toHaveBeenCalledWith({
         type: 'number-event',
         data: 42,
@@ -106,8 +106,8 @@ describe('useEventEmit', () => {
         name: string;
       }
       const objectListener = vi.fn();
-      mockService.on<CustomType>('object-event', objectListener);
-      result.current<CustomType>('object-event', { id: 1, name: 'Test' });
+      mockService.on('object-event', objectListener);
+      result.current('object-event', { id: 1, name: 'Test' });
       expect(objectListener).toHaveBeenCalledWith({
         type: 'object-event',
         data: { id: 1, name: 'Test' },
@@ -115,8 +115,8 @@ describe('useEventEmit', () => {
 
       // Array data
       const arrayListener = vi.fn();
-      mockService.on<number[]>('array-event', arrayListener);
-      result.current<number[]>('array-event', [1, 2, 3]);
+      mockService.on('array-event', arrayListener);
+      result.current('array-event', [1, 2, 3]);
       expect(arrayListener).toHaveBeenCalledWith({
         type: 'array-event',
         data: [1, 2, 3],
@@ -127,16 +127,16 @@ describe('useEventEmit', () => {
       const { result } = renderHook(() => useEventEmit(mockService));
 
       const nullListener = vi.fn();
-      mockService.on<null>('null-event', nullListener);
-      result.current<null>('null-event', null);
+      mockService.on('null-event', nullListener);
+      result.current('null-event', null);
       expect(nullListener).toHaveBeenCalledWith({
         type: 'null-event',
         data: null,
       });
 
       const undefinedListener = vi.fn();
-      mockService.on<undefined>('undefined-event', undefinedListener);
-      result.current<undefined>('undefined-event', undefined);
+      mockService.on('undefined-event', undefinedListener);
+      result.current('undefined-event', undefined);
       expect(undefinedListener).toHaveBeenCalledWith({
         type: 'undefined-event',
         data: undefined,
@@ -19,7 +19,7 @@ describe('useEventOn', () => {
       mockService.emit('test-event', { message: 'Hello' });
 
       expect(callback).toHaveBeenCalledTimes(1);
-      expect(callback).toHaveBeenCalledWith({ message: 'Hello' });
+      expect(callback).toHaveBeenCalledWith({ message: 'Hello' }, expect.any(Object));
     });
 
     it('should unsubscribe from events on unmount', () => {
@@ -46,7 +46,7 @@ describe('useEventOn', () => {
 
       eventService.emit('test-event', { data: 'test' });
 
-      expect(callback).toHaveBeenCalledWith({ data: 'test' });
+      expect(callback).toHaveBeenCalledWith({ data: 'test' }, expect.any(Object));
 
       // Cleanup
       eventService.clear('test-event');
@@ -62,9 +62,9 @@ describe('useEventOn', () => {
       mockService.emit('test-event', { count: 3 });
 
       expect(callback).toHaveBeenCalledTimes(3);
-      expect(callback).toHaveBeenNthCalledWith(1, { count: 1 });
-      expect(callback).toHaveBeenNthCalledWith(2, { count: 2 });
-      expect(callback).toHaveBeenNthCalledWith(3, { count: 3 });
+      expect(callback).toHaveBeenNthCalledWith(1, { count: 1 }, expect.any(Object));
+      expect(callback).toHaveBeenNthCalledWith(2, { count: 2 }, expect.any(Object));
+      expect(callback).toHaveBeenNthCalledWith(3, { count: 3 }, expect.any(Object));
     });
   });
 
@@ -79,7 +79,60 @@ describe('useEventOn', () => {
       mockService.emit('another-event', { data: 'should not trigger' });
 
       expect(callback).toHaveBeenCalledTimes(1);
-      expect(callback).toHaveBeenCalledWith({ data: 'should trigger' });
+      expect(callback).toHaveBeenCalledWith({ data: 'should trigger' }, expect.any(Object));
+    });
+  });
+
+  describe('Wildcard patterns', () => {
+    it('should receive events matching a pattern', () => {
+      const callback = vi.fn();
+
+      renderHook(() => useEventOn('user:*', callback, mockService));
+
+      mockService.emit('user:updated', { name: 'Kim' });
+      mockService.emit('user:deleted', { id: 1 });
+      mockService.emit('cart:updated', { items: [] });
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenNthCalledWith(
+        1,
+        { name: 'Kim' },
+        expect.objectContaining({ type: 'user:updated' })
+      );
+      expect(callback).toHaveBeenNthCalledWith(
+        2,
+        { id: 1 },
+        expect.objectContaining({ type: 'user:deleted' })
+      );
+    });
+
+    it('should tell matching events apart by the payload type', () => {
+      const received: string[] = [];
+
+      renderHook(() =>
+        useEventOn(
+          'user:*',
+          (data, payload) => {
+            received.push(`${payload.type}:${data.id}`);
+          },
+          mockService
+        )
+      );
+
+      mockService.emit('user:login', { id: 1 });
+      mockService.emit('user:logout', { id: 1 });
+
+      expect(received).toEqual(['user:login:1', 'user:logout:1']);
+    });
+
+    it('should unsubscribe pattern listeners on unmount', () => {
+      const { unmount } = renderHook(() => useEventOn('user:*', vi.fn(), mockService));
+
+      expect(mockService.listenerCount('user:*')).toBe(1);
+
+      unmount();
+
+      expect(mockService.listenerCount('user:*')).toBe(0);
     });
   });
 
@@ -102,13 +155,14 @@ describe('useEventOn', () => {
       mockService.emit('event2', { data: 'second' });
 
       expect(callback).toHaveBeenCalledTimes(2);
-      expect(callback).toHaveBeenNthCalledWith(1, { data: 'first' });
-      expect(callback).toHaveBeenNthCalledWith(2, { data: 'second' });
+      expect(callback).toHaveBeenNthCalledWith(1, { data: 'first' }, expect.any(Object));
+      expect(callback).toHaveBeenNthCalledWith(2, { data: 'second' }, expect.any(Object));
     });
 
-    it('should resubscribe when callback changes', () => {
+    it('should call the latest callback without resubscribing', () => {
       const callback1 = vi.fn();
       const callback2 = vi.fn();
+      const onSpy = vi.spyOn(mockService, 'on');
 
       const { rerender } = renderHook(
         ({ callback }) => useEventOn('test-event', callback, mockService),
@@ -125,7 +179,45 @@ describe('useEventOn', () => {
 
       expect(callback1).toHaveBeenCalledTimes(1); // Not called again
       expect(callback2).toHaveBeenCalledTimes(1);
-      expect(callback2).toHaveBeenCalledWith({ data: 'second' });
+      expect(callback2).toHaveBeenCalledWith({ data: 'second' }, expect.any(Object));
+      expect(onSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not resubscribe for an inline callback on every render', () => {
+      const onSpy = vi.spyOn(mockService, 'on');
+      const received: unknown[] = [];
+
+      const { rerender } = renderHook(() =>
+        useEventOn('test-event', (data) => received.push(data), mockService)
+      );
+      rerender();
+      rerender();
+
+      mockService.emit('test-event', 'value');
+
+      expect(onSpy).toHaveBeenCalledTimes(1);
+      expect(received).toEqual(['value']);
+    });
+
+    it('should only subscribe while enabled', () => {
+      const callback = vi.fn();
+
+      const { rerender } = renderHook(
+        ({ enabled }) => useEventOn('test-event', callback, mockService, { enabled }),
+        { initialProps: { enabled: false } }
+      );
+
+      mockService.emit('test-event', 'paused');
+      expect(callback).not.toHaveBeenCalled();
+      expect(mockService.listenerCount('test-event')).toBe(0);
+
+      rerender({ enabled: true });
+      mockService.emit('test-event', 'enabled');
+      expect(callback).toHaveBeenCalledWith('enabled', expect.any(Object));
+
+      rerender({ enabled: false });
+      mockService.emit('test-event', 'paused again');
+      expect(callback).toHaveBeenCalledTimes(1);
     });
 
     it('should resubscribe when service changes', () => {
@@ -148,8 +240,8 @@ describe('useEventOn', () => {
       service2.emit('test-event', { data: 'service2' });
 
       expect(callback).toHaveBeenCalledTimes(2);
-      expect(callback).toHaveBeenNthCalledWith(1, { data: 'service1' });
-      expect(callback).toHaveBeenNthCalledWith(2, { data: 'service2' });
+      expect(callback).toHaveBeenNthCalledWith(1, { data: 'service1' }, expect.any(Object));
+      expect(callback).toHaveBeenNthCalledWith(2, { data: 'service2' }, expect.any(Object));
     });
   });
 
@@ -160,31 +252,39 @@ describe('useEventOn', () => {
         name: string;
       }
 
-      const callback = vi.fn();
+      const typedService = new EventService<{ 'user-event': UserEvent }>();
+      const callback = vi.fn((data: UserEvent) => data.name);
 
-      renderHook(() => useEventOn<UserEvent>('user-event', callback, mockService));
+      renderHook(() => useEventOn('user-event', callback, typedService));
 
-      mockService.emit<UserEvent>('user-event', { id: 1, name: 'John' });
+      typedService.emit('user-event', { id: 1, name: 'John' });
 
-      expect(callback).toHaveBeenCalledWith({ id: 1, name: 'John' });
+      expect(callback).toHaveBeenCalledWith({ id: 1, name: 'John' }, expect.any(Object));
     });
 
     it('should handle different data types', () => {
+      type TestEvents = {
+        'string-event': string;
+        'number-event': number;
+        'array-event': number[];
+      };
+
+      const typedService = new EventService<TestEvents>();
       const stringCallback = vi.fn();
       const numberCallback = vi.fn();
       const arrayCallback = vi.fn();
 
-      renderHook(() => useEventOn<string>('string-event', stringCallback, mockService));
-      renderHook(() => useEventOn<number>('number-event', numberCallback, mockService));
-      renderHook(() => useEventOn<number[]>('array-event', arrayCallback, mockService));
+      renderHook(() => useEventOn('string-event', stringCallback, typedService));
+      renderHook(() => useEventOn('number-event', numberCallback, typedService));
+      renderHook(() => useEventOn('array-event', arrayCallback, typedService));
 
-      mockService.emit<string>('string-event', 'hello');
-      mockService.emit<number>('number-event', 42);
-      mockService.emit<number[]>('array-event', [1, 2, 3]);
+      typedService.emit('string-event', 'hello');
+      typedService.emit('number-event', 42);
+      typedService.emit('array-event', [1, 2, 3]);
 
-      expect(stringCallback).toHaveBeenCalledWith('hello');
-      expect(numberCallback).toHaveBeenCalledWith(42);
-      expect(arrayCallback).toHaveBeenCalledWith([1, 2, 3]);
+      expect(stringCallback).toHaveBeenCalledWith('hello', expect.any(Object));
+      expect(numberCallback).toHaveBeenCalledWith(42, expect.any(Object));
+      expect(arrayCallback).toHaveBeenCalledWith([1, 2, 3], expect.any(Object));
     });
   });
 
@@ -201,7 +301,7 @@ describe('useEventOn', () => {
       mockService.emit('test-event', { data: 'after subscription' });
 
       expect(callback).toHaveBeenCalledTimes(1);
-      expect(callback).toHaveBeenCalledWith({ data: 'after subscription' });
+      expect(callback).toHaveBeenCalledWith({ data: 'after subscription' }, expect.any(Object));
     });
 
     it('should handle rapid resubscriptions', () => {
@@ -218,7 +318,7 @@ describe('useEventOn', () => {
 
       mockService.emit('event9', { data: 'final' });
 
-      expect(callback).toHaveBeenCalledWith({ data: 'final' });
+      expect(callback).toHaveBeenCalledWith({ data: 'final' }, expect.any(Object));
 
       unmount();
     });
@@ -245,8 +345,8 @@ describe('useEventOn', () => {
       mockService.emit('test-event', undefined);
 
       expect(callback).toHaveBeenCalledTimes(2);
-      expect(callback).toHaveBeenNthCalledWith(1, null);
-      expect(callback).toHaveBeenNthCalledWith(2, undefined);
+      expect(callback).toHaveBeenNthCalledWith(1, null, expect.any(Object));
+      expect(callback).toHaveBeenNthCalledWith(2, undefined, expect.any(Object));
     });
 
     it('should handle callback that throws an error', () => {
@@ -280,9 +380,9 @@ describe('useEventOn', () => {
 
       mockService.emit('test-event', { data: 'broadcast' });
 
-      expect(callback1).toHaveBeenCalledWith({ data: 'broadcast' });
-      expect(callback2).toHaveBeenCalledWith({ data: 'broadcast' });
-      expect(callback3).toHaveBeenCalledWith({ data: 'broadcast' });
+      expect(callback1).toHaveBeenCalledWith({ data: 'broadcast' }, expect.any(Object));
+      expect(callback2).toHaveBeenCalledWith({ data: 'broadcast' }, expect.any(Object));
+      expect(callback3).toHaveBeenCalledWith({ data: 'broadcast' }, expect.any(Object));
     });
 
     it('should allow multiple hooks listening to different events', () => {
@@ -297,7 +397,7 @@ describe('useEventOn', () => {
       mockService.emit('event2', { data: 'test' });
 
       expect(callback1).not.toHaveBeenCalled();
-      expect(callback2).toHaveBeenCalledWith({ data: 'test' });
+      expect(callback2).toHaveBeenCalledWith({ data: 'test' }, expect.any(Object));
       expect(callback3).not.toHaveBeenCalled();
     });
   });
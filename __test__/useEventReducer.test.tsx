@@ -0,0 +1,200 @@
+import React from 'react';
+import type { ReactNode } from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { useEventReducer } from '../src/react/useEventReducer';
+import type { EventReducerAction } from '../src/react/useEventReducer';
+import { EventSystemProvider } from '../src/react/EventSystemProvider';
+import { EventService } from '../src/core/EventService';
+
+type CartEvents = {
+  'cart:add': string;
+  'cart:remove': string;
+  'cart:clear': undefined;
+  'user:login': { name: string };
+};
+
+function cartReducer(
+  items: string[],
+  event: EventReducerAction<CartEvents, 'cart:add' | 'cart:remove' | 'cart:clear'>
+): string[] {
+  switch (event.type) {
+    case 'cart:add':
+      return [...items, event.data];
+    case 'cart:remove':
+      return items.filter((item) => item !== event.data);
+    case 'cart:clear':
+      return [];
+  }
+}
+
+describe('useEventReducer', () => {
+  let cartEvents: EventService<CartEvents>;
+
+  beforeEach(() => {
+    cartEvents = new EventService<CartEvents>();
+  });
+
+  it('should return initial state', () => {
+    const { result } = renderHook(() =>
+      useEventReducer(
+        cartReducer,
+        ['apple'],
+        { events: ['cart:add', 'cart:remove', 'cart:clear'] },
+        cartEvents
+      )
+    );
+
+    expect(result.current).toEqual(['apple']);
+  });
+
+  it('should fold the payloads of every event type into state', () => {
+    const { result } = renderHook(() =>
+      useEventReducer(
+        cartReducer,
+        [],
+        { events: ['cart:add', 'cart:remove', 'cart:clear'] },
+        cartEvents
+      )
+    );
+
+    act(() => {
+      cartEvents.emit('cart:add', 'apple');
+      cartEvents.emit('cart:add', 'pear');
+    });
+
+    expect(result.current).toEqual(['apple', 'pear']);
+
+    act(() => {
+      cartEvents.emit('cart:remove', 'apple');
+    });
+
+    expect(result.current).toEqual(['pear']);
+
+    act(() => {
+      cartEvents.emit('cart:clear', undefined);
+    });
+
+    expect(result.current).toEqual([]);
+  });
+
+  it('should ignore events that are not listed', () => {
+    const reducer = vi.fn((count: number) => count + 1);
+    const { result } = renderHook(() =>
+      useEventReducer(reducer, 0, { events: ['cart:add'] }, cartEvents)
+    );
+
+    act(() => {
+      cartEvents.emit('cart:remove', 'apple');
+      cartEvents.emit('user:login', { name: 'Kim' });
+    });
+
+    expect(result.current).toBe(0);
+    expect(reducer).not.toHaveBeenCalled();
+  });
+
+  it('should infer the event types of an inline reducer', () => {
+    const { result } = renderHook(() =>
+      useEventReducer(
+        (names: string[], event) =>
+          event.type === 'user:login' ? [...names, event.data.name] : names,
+        [],
+        { events: ['user:login'] },
+        cartEvents
+      )
+    );
+
+    act(() => {
+      cartEvents.emit('user:login', { name: 'Kim' });
+    });
+
+    expect(result.current).toEqual(['Kim']);
+  });
+
+  it('should use the latest reducer', () => {
+    let step = 1;
+    const { result, rerender } = renderHook(() =>
+      useEventReducer((count: number) => count + step, 0, { events: ['cart:add'] }, cartEvents)
+    );
+
+    act(() => {
+      cartEvents.emit('cart:add', 'apple');
+    });
+
+    step = 10;
+    rerender();
+
+    act(() => {
+      cartEvents.emit('cart:add', 'pear');
+    });
+
+    expect(result.current).toBe(11);
+  });
+
+  it('should not resubscribe when an inline events array is equal', () => {
+    const onSpy = vi.spyOn(cartEvents, 'on');
+    const { rerender } = renderHook(() =>
+      useEventReducer(cartReducer, [], { events: ['cart:add', 'cart:remove'] }, cartEvents)
+    );
+
+    rerender();
+    rerender();
+
+    expect(onSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should resubscribe when the events change', () => {
+    let events: ('cart:add' | 'cart:remove' | 'cart:clear')[] = ['cart:add'];
+    const { result, rerender } = renderHook(() =>
+      useEventReducer(cartReducer, [], { events }, cartEvents)
+    );
+
+    events = ['cart:add', 'cart:remove'];
+    rerender();
+
+    act(() => {
+      cartEvents.emit('cart:add', 'apple');
+      cartEvents.emit('cart:remove', 'apple');
+    });
+
+    expect(result.current).toEqual([]);
+  });
+
+  it('should fold sticky payloads emitted before mount', () => {
+    cartEvents.setSticky('cart:add');
+    cartEvents.emit('cart:add', 'apple');
+
+    const { result } = renderHook(() =>
+      useEventReducer(cartReducer, [], { events: ['cart:add'] }, cartEvents)
+    );
+
+    expect(result.current).toEqual(['apple']);
+  });
+
+  it('should unsubscribe on unmount', () => {
+    const { unmount } = renderHook(() =>
+      useEventReducer(cartReducer, [], { events: ['cart:add', 'cart:remove'] }, cartEvents)
+    );
+
+    unmount();
+
+    expect(cartEvents.listenerCount('cart:add')).toBe(0);
+    expect(cartEvents.listenerCount('cart:remove')).toBe(0);
+  });
+
+  it('should use the provider event service', () => {
+    const wrapper = ({ children }: { children?: ReactNode }) => (
+      <EventSystemProvider eventService={cartEvents}>{children}</EventSystemProvider>
+    );
+    const { result } = renderHook(
+      () => useEventReducer(cartReducer, [], { events: ['cart:add'] }),
+      { wrapper }
+    );
+
+    act(() => {
+      cartEvents.emit('cart:add', 'apple');
+    });
+
+    expect(result.current).toEqual(['apple']);
+  });
+});
@@ -1,4 +1,6 @@
+import React from 'react';
 import { renderHook, act } from '@testing-library/react';
+import { renderToString } from 'react-dom/server';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { useEventState } from '../src/react/useEventState';
 import { EventService } from '../src/core/EventService';
@@ -76,16 +78,48 @@ describe('useEventState', () => {
     });
   });
 
+  describe('Sticky events', () => {
+    it('should initialize from the last sticky payload when requested', () => {
+      mockService.setSticky('user-event');
+      mockService.emit('user-event', { name: 'Kim' });
+
+      const { result } = renderHook(() =>
+        useEventState('user-event', { name: 'Guest' }, mockService, { initializeFromLast: true })
+      );
+
+      expect(result.current).toEqual({ name: 'Kim' });
+    });
+
+    it('should fall back to the initial state without a sticky payload', () => {
+      const { result } = renderHook(() =>
+        useEventState('user-event', { name: 'Guest' }, mockService, { initializeFromLast: true })
+      );
+
+      expect(result.current).toEqual({ name: 'Guest' });
+    });
+
+    it('should catch up with a sticky payload after mount', () => {
+      mockService.setSticky('user-event');
+      mockService.emit('user-event', { name: 'Kim' });
+
+      const { result } = renderHook(() =>
+        useEventState('user-event', { name: 'Guest' }, mockService)
+      );
+
+      expect(result.current).toEqual({ name: 'Kim' });
+    });
+  });
+
   describe('Type safety', () => {
     it('should work with string state', () => {
       const { result } = renderHook(() =>
-        useEventState<string>('string-event', 'initial', mockService)
+        useEventState('string-event', 'initial', mockService)
       );
 
       expect(result.current).toBe('initial');
 
       act(() => {
-        mockService.emit<string>('string-event', 'updated');
+        mockService.emit('string-event', 'updated');
       });
 
       expect(result.current).toBe('updated');
@@ -93,13 +127,13 @@ describe('useEventState', () => {
 
     it('should work with number state', () => {
       const { result } = renderHook(() =>
-        useEventState<number>('number-event', 0, mockService)
+        useEventState('number-event', 0, mockService)
       );
 
       expect(result.current).toBe(0);
 
       act(() => {
-        mockService.emit<number>('number-event', 42);
+        mockService.emit('number-event', 42);
       });
 
       expect(result.current).toBe(42);
@@ -114,13 +148,13 @@ describe('useEventState', () => {
       const initialUser: User = { id: 0, name: 'Guest' };
 
       const { result } = renderHook(() =>
-        useEventState<User>('user-event', initialUser, mockService)
+        useEventState('user-event', initialUser, mockService)
       );
 
       expect(result.current).toEqual({ id: 0, name: 'Guest' });
 
       act(() => {
-        mockService.emit<User>('user-event', { id: 1, name: 'John' });
+        mockService.emit('user-event', { id: 1, name: 'John' });
       });
 
       expect(result.current).toEqual({ id: 1, name: 'John' });
@@ -128,13 +162,13 @@ describe('useEventState', () => {
 
     it('should work with array state', () => {
       const { result } = renderHook(() =>
-        useEventState<number[]>('array-event', [], mockService)
+        useEventState('array-event', [], mockService)
       );
 
       expect(result.current).toEqual([]);
 
       act(() => {
-        mockService.emit<number[]>('array-event', [1, 2, 3]);
+        mockService.emit('array-event', [1, 2, 3]);
       });
 
       expect(result.current).toEqual([1, 2, 3]);
@@ -154,7 +188,7 @@ describe('useEventState', () => {
       };
 
       const { result } = renderHook(() =>
-        useEventState<ComplexState>('complex-event', initialState, mockService)
+        useEventState('complex-event', initialState, mockService)
       );
 
       expect(result.current).toEqual(initialState);
@@ -166,7 +200,7 @@ describe('useEventState', () => {
       };
 
       act(() => {
-        mockService.emit<ComplexState>('complex-event', newState);
+        mockService.emit('complex-event', newState);
       });
 
       expect(result.current).toEqual(newState);
@@ -259,19 +293,19 @@ describe('useEventState', () => {
   describe('Edge cases', () => {
     it('should handle null state', () => {
       const { result } = renderHook(() =>
-        useEventState<string | null>('test-event', null, mockService)
+        useEventState('test-event', null, mockService)
       );
 
       expect(result.current).toBeNull();
 
       act(() => {
-        mockService.emit<string | null>('test-event', 'not null');
+        mockService.emit('test-event', 'not null');
       });
 
       expect(result.current).toBe('not null');
 
       act(() => {
-        mockService.emit<string | null>('test-event', null);
+        mockService.emit('test-event', null);
       });
 
       expect(result.current).toBeNull();
@@ -279,19 +313,19 @@ describe('useEventState', () => {
 
     it('should handle undefined state', () => {
       const { result } = renderHook(() =>
-        useEventState<string | undefined>('test-event', undefined, mockService)
+        useEventState('test-event', undefined, mockService)
       );
 
       expect(result.current).toBeUndefined();
 
       act(() => {
-        mockService.emit<string | undefined>('test-event', 'defined');
+        mockService.emit('test-event', 'defined');
       });
 
       expect(result.current).toBe('defined');
 
       act(() => {
-        mockService.emit<string | undefined>('test-event', undefined);
+        mockService.emit('test-event', undefined);
       });
 
       expect(result.current).toBeUndefined();
@@ -299,19 +333,19 @@ describe('useEventState', () => {
 
     it('should handle boolean state', () => {
       const { result } = renderHook(() =>
-        useEventState<boolean>('toggle-event', false, mockService)
+        useEventState('toggle-event', false, mockService)
       );
 
       expect(result.current).toBe(false);
 
       act(() => {
-        mockService.emit<boolean>('toggle-event', true);
+        mockService.emit('toggle-event', true);
       });
 
       expect(result.current).toBe(true);
 
       act(() => {
-        mockService.emit<boolean>('toggle-event', false);
+        mockService.emit('toggle-event', false);
       });
 
       expect(result.current).toBe(false);
@@ -434,4 +468,116 @@ describe('useEventState', () => {
       expect(result2.current).toBe('updated2');
     });
   });
+  describe('Selectors', () => {
+    it('should return the selected part of the state', () => {
+      const { result } = renderHook(() =>
+        useEventState('user', { name: 'Guest', age: 0 }, mockService, {
+          selector: (user) => user.name,
+        })
+      );
+
+      expect(result.current).toBe('Guest');
+
+      act(() => {
+        mockService.emit('user', { name: 'Kim', age: 30 });
+      });
+
+      expect(result.current).toBe('Kim');
+    });
+
+    it('should not re-render when the selected part is unchanged', () => {
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders++;
+        return useEventState('user', { name: 'Guest', age: 0 }, mockService, {
+          selector: (user) => user.name,
+        });
+      });
+      const initialRenders = renders;
+
+      act(() => {
+        mockService.emit('user', { name: 'Guest', age: 1 });
+        mockService.emit('user', { name: 'Guest', age: 2 });
+      });
+
+      expect(renders).toBe(initialRenders);
+
+      act(() => {
+        mockService.emit('user', { name: 'Kim', age: 2 });
+      });
+
+      expect(renders).toBe(initialRenders + 1);
+      expect(result.current).toBe('Kim');
+    });
+
+    it('should keep the previous selection when equalityFn considers it equal', () => {
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders++;
+        return useEventState('cart', { items: ['apple'], total: 1 }, mockService, {
+          selector: (cart) => cart.items.slice(),
+          equalityFn: (previous: string[], next: string[]) =>
+            previous.length === next.length && previous.every((item, i) => item === next[i]),
+        });
+      });
+      const first = result.current;
+      const initialRenders = renders;
+
+      act(() => {
+        mockService.emit('cart', { items: ['apple'], total: 2 });
+      });
+
+      expect(renders).toBe(initialRenders);
+      expect(result.current).toBe(first);
+
+      act(() => {
+        mockService.emit('cart', { items: ['apple', 'pear'], total: 3 });
+      });
+
+      expect(result.current).toEqual(['apple', 'pear']);
+    });
+
+    it('should apply a new selector on the next render', () => {
+      let selector = (user: { name: string; age: number }): string | number => user.name;
+      const { result, rerender } = renderHook(() =>
+        useEventState('user', { name: 'Guest', age: 0 }, mockService, { selector })
+      );
+
+      expect(result.current).toBe('Guest');
+
+      selector = (user) => user.age;
+      rerender();
+
+      expect(result.current).toBe(0);
+    });
+  });
+
+  describe('Server snapshot', () => {
+    it('should render initialState on the server', () => {
+      mockService.setSticky('user');
+      mockService.emit('user', { name: 'Kim' });
+
+      function Name() {
+        const name = useEventState('user', { name: 'Guest' }, mockService, {
+          initializeFromLast: true,
+          selector: (user) => user.name,
+        });
+        return React.createElement('p', null, name);
+      }
+
+      expect(renderToString(React.createElement(Name))).toBe('<p>Guest</p>');
+    });
+
+    it('should render getServerSnapshot on the server', () => {
+      function Name() {
+        const name = useEventState('user', { name: 'Guest' }, mockService, {
+          getServerSnapshot: () => ({ name: 'Server' }),
+          selector: (user) => user.name,
+        });
+        return React.createElement('p', null, name);
+      }
+
+      expect(renderToString(React.createElement(Name))).toBe('<p>Server</p>');
+    });
+  });
 });
@@ -0,0 +1,106 @@
+import { act, renderHook } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { useIsLeader } from '../src/react/useIsLeader';
+import { LeaderElection } from '../src/core/LeaderElection';
+import { BroadcastService } from '../src/core/BroadcastService';
+
+// Mock BroadcastChannel API (same as in BroadcastService.test.ts)
+class MockBroadcastChannel {
+  name: string;
+  private listeners: Set<(event: MessageEvent) => void> = new Set();
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  postMessage(data: any) {
+    const event = new MessageEvent('message', { data });
+    this.listeners.forEach((listener) => {
+      setTimeout(() => listener(event), 0);
+    });
+  }
+
+  addEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.delete(listener);
+  }
+
+  close() {
+    this.listeners.clear();
+  }
+}
+
+describe('useIsLeader', () => {
+  let originalBroadcastChannel: any;
+  let broadcastService: BroadcastService;
+  let election: LeaderElection;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    originalBroadcastChannel = global.BroadcastChannel;
+    (global as any).BroadcastChannel = MockBroadcastChannel;
+
+    broadcastService = new BroadcastService();
+    election = new LeaderElection({
+      broadcastService,
+      useWebLocks: false,
+      heartbeatInterval: 100,
+      leaderTimeout: 300,
+    });
+  });
+
+  afterEach(() => {
+    election.stop();
+    broadcastService.closeAll();
+    global.BroadcastChannel = originalBroadcastChannel;
+    vi.useRealTimers();
+  });
+
+  it('should start the election and report leadership', () => {
+    const { result } = renderHook(() => useIsLeader(election));
+
+    expect(result.current).toBe(false);
+
+    act(() => {
+      vi.advanceTimersByTime(400);
+    });
+
+    expect(result.current).toBe(true);
+  });
+
+  it('should update when leadership is lost', () => {
+    const { result } = renderHook(() => useIsLeader(election));
+    act(() => {
+      vi.advanceTimersByTime(400);
+    });
+
+    act(() => {
+      election.stop();
+    });
+
+    expect(result.current).toBe(false);
+  });
+
+  it('should start from the current leadership', () => {
+    election.start();
+    vi.advanceTimersByTime(400);
+
+    const { result } = renderHook(() => useIsLeader(election));
+
+    expect(result.current).toBe(true);
+  });
+
+  it('should keep the election running after unmount', () => {
+    const { unmount } = renderHook(() => useIsLeader(election));
+    act(() => {
+      vi.advanceTimersByTime(400);
+    });
+
+    unmount();
+
+    expect(election.isLeader()).toBe(true);
+  });
+});
@@ -0,0 +1,118 @@
+import { act, renderHook } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { usePeers } from '../src/react/usePeers';
+import { Presence } from '../src/core/Presence';
+import { BroadcastService } from '../src/core/BroadcastService';
+
+// Mock BroadcastChannel API (same as in EventBridge.test.ts)
+class MockBroadcastChannel {
+  static channels = new Set<MockBroadcastChannel>();
+
+  name: string;
+  private listeners: Set<(event: MessageEvent) => void> = new Set();
+
+  constructor(name: string) {
+    this.name = name;
+    MockBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: any) {
+    MockBroadcastChannel.channels.forEach((channel) => {
+      if (channel !== this && channel.name === this.name) {
+        const event = new MessageEvent('message', { data });
+        channel.listeners.forEach((listener) => {
+          setTimeout(() => listener(event), 0);
+        });
+      }
+    });
+  }
+
+  addEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.delete(listener);
+  }
+
+  close() {
+    this.listeners.clear();
+    MockBroadcastChannel.channels.delete(this);
+  }
+}
+
+describe('usePeers', () => {
+  let originalBroadcastChannel: any;
+  let localService: BroadcastService;
+  let remoteService: BroadcastService;
+  let localPresence: Presence;
+  let remotePresence: Presence<{ route: string }>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    originalBroadcastChannel = global.BroadcastChannel;
+    (global as any).BroadcastChannel = MockBroadcastChannel;
+
+    localService = new BroadcastService({ tabId: 'local-tab' });
+    remoteService = new BroadcastService({ tabId: 'remote-tab' });
+    localPresence = new Presence({ broadcastService: localService });
+    remotePresence = new Presence({
+      broadcastService: remoteService,
+      metadata: { route: '/home' },
+    });
+  });
+
+  afterEach(() => {
+    localPresence.stop();
+    remotePresence.stop();
+    localService.closeAll();
+    remoteService.closeAll();
+    global.BroadcastChannel = originalBroadcastChannel;
+    vi.useRealTimers();
+  });
+
+  it('should start the registry and list peers', () => {
+    remotePresence.start();
+
+    const { result } = renderHook(() => usePeers(localPresence));
+    expect(result.current).toEqual([]);
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+
+    expect(result.current).toEqual([
+      { id: 'remote-tab', metadata: { route: '/home' }, lastSeen: expect.any(Number) },
+    ]);
+  });
+
+  it('should update when peers change their metadata or leave', () => {
+    remotePresence.start();
+    const { result } = renderHook(() => usePeers(localPresence));
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+
+    act(() => {
+      remotePresence.setMetadata({ route: '/cart' });
+      vi.advanceTimersByTime(1);
+    });
+    expect(result.current[0].metadata).toEqual({ route: '/cart' });
+
+    act(() => {
+      remotePresence.stop();
+      vi.advanceTimersByTime(1);
+    });
+    expect(result.current).toEqual([]);
+  });
+
+  it('should stop updating after unmount but keep the registry running', () => {
+    const { unmount } = renderHook(() => usePeers(localPresence));
+    unmount();
+
+    remotePresence.start();
+    vi.advanceTimersByTime(1);
+
+    expect(localPresence.getPeers()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,246 @@
+import { act, renderHook } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { useSharedState } from '../src/react/useSharedState';
+import { BroadcastService } from '../src/core/BroadcastService';
+
+// Mock BroadcastChannel API (same as in EventBridge.test.ts)
+class MockBroadcastChannel {
+  static channels = new Set<MockBroadcastChannel>();
+
+  name: string;
+  private listeners: Set<(event: MessageEvent) => void> = new Set();
+
+  constructor(name: string) {
+    this.name = name;
+    MockBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: any) {
+    MockBroadcastChannel.channels.forEach((channel) => {
+      if (channel !== this && channel.name === this.name) {
+        const event = new MessageEvent('message', { data });
+        channel.listeners.forEach((listener) => {
+          setTimeout(() => listener(event), 0);
+        });
+      }
+    });
+  }
+
+  addEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.delete(listener);
+  }
+
+  close() {
+    this.listeners.clear();
+    MockBroadcastChannel.channels.delete(this);
+  }
+}
+
+const flush = () =>
+  act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  });
+
+describe('useSharedState', () => {
+  let originalBroadcastChannel: any;
+  let tabA: BroadcastService;
+  let tabB: BroadcastService;
+
+  beforeEach(() => {
+    originalBroadcastChannel = global.BroadcastChannel;
+    (global as any).BroadcastChannel = MockBroadcastChannel;
+
+    tabA = new BroadcastService({ tabId: 'tab-a' });
+    tabB = new BroadcastService({ tabId: 'tab-b' });
+  });
+
+  afterEach(() => {
+    tabA.closeAll();
+    tabB.closeAll();
+    global.BroadcastChannel = originalBroadcastChannel;
+  });
+
+  describe('Basic functionality', () => {
+    it('should return the initial state', () => {
+      const { result } = renderHook(() => useSharedState('count', 0, tabA));
+
+      expect(result.current[0]).toBe(0);
+    });
+
+    it('should update with a value or an updater function', () => {
+      const { result } = renderHook(() => useSharedState('count', 0, tabA));
+
+      act(() => {
+        result.current[1](5);
+      });
+      expect(result.current[0]).toBe(5);
+
+      act(() => {
+        result.current[1]((prev) => prev + 1);
+      });
+      expect(result.current[0]).toBe(6);
+    });
+
+    it('should apply consecutive updater calls in order', () => {
+      const { result } = renderHook(() => useSharedState('count', 0, tabA));
+
+      act(() => {
+        result.current[1]((prev) => prev + 1);
+        result.current[1]((prev) => prev + 1);
+      });
+
+      expect(result.current[0]).toBe(2);
+    });
+
+    it('should keep a stable setter', () => {
+      const { result, rerender } = renderHook(() => useSharedState('count', 0, tabA));
+      const setter = result.current[1];
+
+      rerender();
+
+      expect(result.current[1]).toBe(setter);
+    });
+  });
+
+  describe('Synchronization', () => {
+    it('should share the value between components in the same tab', () => {
+      const { result: first } = renderHook(() => useSharedState('count', 0, tabA));
+      const { result: second } = renderHook(() => useSharedState('count', 0, tabA));
+
+      act(() => {
+        first.current[1](3);
+      });
+
+      expect(second.current[0]).toBe(3);
+    });
+
+    it('should sync updates to other tabs', async () => {
+      const { result: a } = renderHook(() => useSharedState('count', 0, tabA));
+      const { result: b } = renderHook(() => useSharedState('count', 0, tabB));
+
+      act(() => {
+        a.current[1](7);
+      });
+      await flush();
+
+      expect(b.current[0]).toBe(7);
+    });
+
+    it('should request the current value from existing tabs on mount', async () => {
+      const { result: a } = renderHook(() => useSharedState('count', 0, tabA));
+      act(() => {
+        a.current[1](42);
+      });
+
+      const { result: b } = renderHook(() => useSharedState('count', 0, tabB));
+      expect(b.current[0]).toBe(0);
+
+      await flush();
+      await flush();
+
+      expect(b.current[0]).toBe(42);
+    });
+
+    it('should initialize a new component from one already mounted in the same tab', () => {
+      const { result: first } = renderHook(() => useSharedState('count', 0, tabA));
+      act(() => {
+        first.current[1](9);
+      });
+
+      const { result: second } = renderHook(() => useSharedState('count', 0, tabA));
+
+      expect(second.current[0]).toBe(9);
+    });
+
+    it('should not replace a set value with another tab initial value', async () => {
+      const { result: a } = renderHook(() => useSharedState('count', 0, tabA));
+      act(() => {
+        a.current[1](1);
+      });
+
+      renderHook(() => useSharedState('count', 100, tabB));
+      await flush();
+      await flush();
+
+      expect(a.current[0]).toBe(1);
+    });
+
+    it('should resolve concurrent writes by last writer wins', async () => {
+      const nowSpy = vi.spyOn(Date, 'now');
+      const { result: a } = renderHook(() => useSharedState('count', 0, tabA));
+      const { result: b } = renderHook(() => useSharedState('count', 0, tabB));
+
+      act(() => {
+        nowSpy.mockReturnValue(2000);
+        a.current[1](1);
+        nowSpy.mockReturnValue(1000);
+        b.current[1](2);
+      });
+      await flush();
+
+      expect(a.current[0]).toBe(1);
+      expect(b.current[0]).toBe(1);
+
+      nowSpy.mockRestore();
+    });
+
+    it('should break timestamp ties by tab ID', async () => {
+      const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(1000);
+      const { result: a } = renderHook(() => useSharedState('count', 0, tabA));
+      const { result: b } = renderHook(() => useSharedState('count', 0, tabB));
+
+      act(() => {
+        b.current[1](2);
+        a.current[1](1);
+      });
+      await flush();
+
+      expect(a.current[0]).toBe(2);
+      expect(b.current[0]).toBe(2);
+
+      nowSpy.mockRestore();
+    });
+
+    it('should not share values between different keys', async () => {
+      const { result: count } = renderHook(() => useSharedState('count', 0, tabA));
+      const { result: other } = renderHook(() => useSharedState('other', 0, tabB));
+
+      act(() => {
+        count.current[1](5);
+      });
+      await flush();
+
+      expect(other.current[0]).toBe(0);
+    });
+
+    it('should start over from the initial state when the key changes', () => {
+      const { result, rerender } = renderHook(({ key }) => useSharedState(key, 0, tabA), {
+        initialProps: { key: 'count' },
+      });
+      act(() => {
+        result.current[1](5);
+      });
+
+      rerender({ key: 'other' });
+
+      expect(result.current[0]).toBe(0);
+    });
+
+    it('should stop syncing after unmount', async () => {
+      const { result: a } = renderHook(() => useSharedState('count', 0, tabA));
+      const { result: b, unmount } = renderHook(() => useSharedState('count', 0, tabB));
+
+      unmount();
+      act(() => {
+        a.current[1](5);
+      });
+      await flush();
+
+      expect(b.current[0]).toBe(0);
+    });
+  });
+});
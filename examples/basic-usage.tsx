@@ -9,8 +9,28 @@ import {
   useEventState,
   useBroadcast,
   useBroadcastOn,
+  EventService,
+  BroadcastService,
 } from '../src/index';
 
+// ============================================================================
+// Typed event map: payload types are inferred from the event name
+// ============================================================================
+
+type AppEvents = {
+  'counter:changed': CounterEvent;
+  'user:updated': UserEvent;
+  'notification:show': NotificationEvent;
+};
+
+const appEvents = new EventService<AppEvents>();
+
+type AppChannels = {
+  'tab-chat': TabMessageEvent;
+};
+
+const appChannels = new BroadcastService<AppChannels>();
+
 // ============================================================================
 // Example 1: Simple Counter with Events
 // ============================================================================
@@ -21,13 +41,13 @@ type CounterEvent = {
 };
 
 function CounterEmitter() {
-  const emit = useEventEmit();
+  const emit = useEventEmit(appEvents);
   const [count, setCount] = useState(0);
 
   const increment = () => {
     const newCount = count + 1;
     setCount(newCount);
-    emit<CounterEvent>('counter:changed', {
+    emit('counter:changed', {
       count: newCount,
       timestamp: Date.now(),
     });
@@ -45,10 +65,14 @@ function CounterEmitter() {
 function CounterListener() {
   const [lastUpdate, setLastUpdate] = useState<CounterEvent | null>(null);
 
-  useEventOn<CounterEvent>('counter:changed', (data) => {
-    console.log('Counter changed:', data);
-    setLastUpdate(data);
-  });
+  useEventOn(
+    'counter:changed',
+    (data) => {
+      console.log('Counter changed:', data);
+      setLastUpdate(data);
+    },
+    appEvents
+  );
 
   return (
     <div>
@@ -75,10 +99,10 @@ type UserEvent = {
 };
 
 function UserEditor() {
-  const emit = useEventEmit();
+  const emit = useEventEmit(appEvents);
 
   const handleLogin = () => {
-    emit<UserEvent>('user:updated', {
+    emit('user:updated', {
       name: 'John Doe',
       email: 'john@example.com',
       role: 'admin',
@@ -86,7 +110,7 @@ function UserEditor() {
   };
 
   const handleLogout = () => {
-    emit<UserEvent>('user:updated', {
+    emit('user:updated', {
       name: '',
       email: '',
       role: 'user',
@@ -104,11 +128,15 @@ function UserEditor() {
 
 function UserProfile() {
   // Automatically updates when 'user:updated' event is emitted
-  const user = useEventState<UserEvent>('user:updated', {
-    name: '',
-    email: '',
-    role: 'user',
-  });
+  const user = useEventState(
+    'user:updated',
+    {
+      name: '',
+      email: '',
+      role: 'user',
+    },
+    appEvents
+  );
 
   return (
     <div>
@@ -133,14 +161,18 @@ type NotificationEvent = {
 function NotificationManager() {
   const [notifications, setNotifications] = useState<(NotificationEvent & { id: number })[]>([]);
 
-  useEventOn<NotificationEvent>('notification:show', (data) => {
-    const id = Date.now();
-    setNotifications((prev) => [...prev, { ...data, id }]);
-
-    setTimeout(() => {
-      setNotifications((prev) => prev.filter((n) => n.id !== id));
-    }, data.duration || 3000);
-  });
+  useEventOn(
+    'notification:show',
+    (data) => {
+      const id = Date.now();
+      setNotifications((prev) => [...prev, { ...data, id }]);
+
+      setTimeout(() => {
+        setNotifications((prev) => prev.filter((n) => n.id !== id));
+      }, data.duration || 3000);
+    },
+    appEvents
+  );
 
   return (
     <div style={{ position: 'fixed', top: 20, right: 20, zIndex: 9999 }}>
@@ -170,10 +202,10 @@ function NotificationManager() {
 }
 
 function NotificationTrigger() {
-  const emit = useEventEmit();
+  const emit = useEventEmit(appEvents);
 
   const showSuccess = () => {
-    emit<NotificationEvent>('notification:show', {
+    emit('notification:show', {
       type: 'success',
       message: 'Operation completed successfully!',
       duration: 3000,
@@ -181,7 +213,7 @@ function NotificationTrigger() {
   };
 
   const showError = () => {
-    emit<NotificationEvent>('notification:show', {
+    emit('notification:show', {
       type: 'error',
       message: 'Something went wrong!',
       duration: 5000,
@@ -208,7 +240,7 @@ type TabMessageEvent = {
 };
 
 function TabSender() {
-  const broadcast = useBroadcast();
+  const broadcast = useBroadcast(appChannels);
   const [message, setMessage] = useState('');
 
   const send = () => {
@@ -216,7 +248,7 @@ function TabSender() {
       message,
       from: `Tab ${Math.floor(Math.random() * 1000)}`,
       timestamp: Date.now(),
-    } as TabMessageEvent);
+    });
     setMessage('');
   };
 
@@ -237,9 +269,13 @@ function TabSender() {
 function TabReceiver() {
   const [messages, setMessages] = useState<TabMessageEvent[]>([]);
 
-  useBroadcastOn('tab-chat', (data: TabMessageEvent) => {
-    setMessages((prev) => [...prev, data].slice(-10)); // Keep last 10 messages
-  });
+  useBroadcastOn(
+    'tab-chat',
+    (data) => {
+      setMessages((prev) => [...prev, data].slice(-10)); // Keep last 10 messages
+    },
+    appChannels
+  );
 
   return (
     <div>
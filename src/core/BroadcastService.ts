@@ -1,39 +1,227 @@
-import type { IBroadcastService } from '../types/events';
+import type {
+  BroadcastCallback,
+  BroadcastEnvelope,
+  BroadcastErrorContext,
+  BroadcastMessageMeta,
+  BroadcastArgs,
+  BroadcastServiceOptions,
+  BroadcastSubscribeOptions,
+  ChannelKey,
+  ChannelMap,
+  DefaultChannelMap,
+  IBroadcastService,
+  RpcHandler,
+  RpcRequestOptions,
+  RpcResponse,
+  Subscription,
+  Transport,
+  TransportChannel,
+} from '../types/events';
+import { RpcError, TimeoutError } from './errors';
+import { isServer } from './environment';
+import { createId } from './id';
+import { createSubscription } from './subscription';
+import { BroadcastChannelTransport } from './transports/BroadcastChannelTransport';
+import { LocalStorageTransport } from './transports/LocalStorageTransport';
+import { NoopTransport } from './transports/NoopTransport';
+
+/**
+ * Prefix of the broadcast channel carrying the requests and responses of an RPC channel
+ */
+export const RPC_CHANNEL_PREFIX = 'rpc:';
+
+/**
+ * Error as sent back to the requesting tab
+ */
+type SerializedError = {
+  name: string;
+  message: string;
+  stack?: string;
+};
+
+/**
+ * Message sent on an RPC channel
+ */
+type RpcMessage =
+  | { kind: 'request'; id: string; method: string; params: unknown }
+  | { kind: 'response'; id: string; result?: unknown; error?: SerializedError };
+
+function serializeError(error: unknown): SerializedError {
+  return error instanceof Error
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : { name: 'Error', message: String(error) };
+}
+
+/**
+ * Subscriber registered on a channel
+ */
+type ChannelListener = {
+  /**
+   * Remove the handler attached to the transport channel
+   */
+  stop: () => void;
+
+  /**
+   * Call the subscriber callback, reporting errors
+   */
+  deliver: (data: unknown, meta: BroadcastMessageMeta | undefined) => void;
+
+  options: BroadcastSubscribeOptions;
+};
+
+/**
+ * ID shared by every broadcast service in this tab
+ */
+let currentTabId: string | undefined;
+
+function getCurrentTabId(): string {
+  currentTabId ??= createId();
+  return currentTabId;
+}
+
+/**
+ * Transport used unless one is passed as an option
+ * Falls back to localStorage where BroadcastChannel is unavailable, e.g. in some webviews,
+ * and sends nothing on the server or where neither is available
+ */
+function createDefaultTransport(): Transport {
+  if (isServer()) {
+    return new NoopTransport();
+  }
+  if (typeof BroadcastChannel !== 'undefined') {
+    return new BroadcastChannelTransport();
+  }
+  if (typeof localStorage !== 'undefined') {
+    return new LocalStorageTransport();
+  }
+  return new NoopTransport();
+}
+
+/**
+ * Check whether a received message is a broadcast envelope
+ */
+function isBroadcastEnvelope(message: unknown): message is BroadcastEnvelope {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as BroadcastEnvelope).__broadcastEnvelope === true
+  );
+}
 
 /**
  * Service for cross-window/tab communication using BroadcastChannel API
  * Allows different windows/tabs of the same origin to communicate
+ * Messages travel over a pluggable transport, BroadcastChannel by default
+ * @example
+ * ```ts
+ * type AppChannels = { 'auth:logout': { reason: string } };
+ *
+ * const channels = new BroadcastService<AppChannels>();
+ * channels.broadcast('auth:logout', { reason: 'expired' }); // OK
+ * channels.broadcast('auth:logout', { code: 401 }); // Compile error: wrong message
+ * channels.broadcast('auth:login', {}); // Compile error: unknown channel
+ *
+ * const tracked = new BroadcastService({ onError: (error) => tracker.capture(error) });
+ * const inMemory = new BroadcastService({ transport: new InMemoryTransport() });
+ *
+ * channels.subscribe('auth:logout', (data, meta) => {
+ *   console.log(`${data.reason} from tab ${meta?.senderId}`);
+ * });
+ *
+ * // Update this tab and all other tabs from one code path
+ * channels.broadcast('auth:logout', { reason: 'manual' }, { local: true });
+ *
+ * // Ask other tabs a question
+ * channels.handle('session', 'getUser', () => currentUser);
+ * const user = await channels.request('session', 'getUser', undefined, { timeout: 1000 });
+ * ```
  */
-export class BroadcastService implements IBroadcastService {
-  private channels = new Map<string, BroadcastChannel>();
-  private listeners = new Map<string, Map<string, (event: MessageEvent) => void>>();
+export class BroadcastService<TChannels extends ChannelMap = DefaultChannelMap>
+  implements IBroadcastService<TChannels>
+{
+  private channels = new Map<string, TransportChannel>();
+  private listeners = new Map<string, Map<string, ChannelListener>>();
   private listenerIdCounter = 0;
+  private seq = 0;
+  private options: BroadcastServiceOptions;
+  private transport: Transport;
+
+  /**
+   * Prefix of the IDs of messages sent by this instance, to recognize its own echoes
+   */
+  private messageIdPrefix = `${createId()}:`;
+
+  /**
+   * ID of this tab, sent as `senderId` with every message
+   * Shared by every service in the tab unless set with the `tabId` option
+   */
+  readonly tabId: string;
+
+  /**
+   * Create a broadcast service
+   * @param options - Optional `onError` handler and `strict` mode for callback and broadcast errors,
+   * the `tabId` and schema `version` sent with every message, and the `transport` to use
+   */
+  constructor(options: BroadcastServiceOptions = {}) {
+    this.options = options;
+    this.tabId = options.tabId ?? getCurrentTabId();
+    this.transport = options.transport ?? createDefaultTransport();
+  }
 
   /**
    * Subscribe to a broadcast channel
    * @param channelName - The name of the channel to subscribe to
-   * @param callback - Function to call when a message is received
+   * @param callback - Function to call with the message data and its metadata
+   * @param options - Optional `includeSelf` or `excludeSelf` to control delivery of this tab's messages
    * @returns Listener ID that can be used to unsubscribe
    */
-  subscribe(channelName: string, callback: (data: any) => void): string {
-    if (!this.channels.has(channelName)) {
-      this.channels.set(channelName, new BroadcastChannel(channelName));
+  subscribe<K extends ChannelKey<TChannels>>(
+    channelName: K,
+    callback: BroadcastCallback<TChannels[K]>,
+    options: BroadcastSubscribeOptions = {}
+  ): string {
+    const channel = this.openChannel(channelName);
+    if (!this.listeners.has(channelName)) {
       this.listeners.set(channelName, new Map());
     }
 
-    const channel = this.channels.get(channelName)!;
     const listenerId = `listener_${++this.listenerIdCounter}`;
 
-    const messageHandler = (event: MessageEvent) => {
+    const deliver = (data: unknown, meta: BroadcastMessageMeta | undefined) => {
       try {
-        callback(event.data);
+        callback(data as TChannels[K], meta);
       } catch (error) {
-        console.error(`Error in broadcast callback for "${channelName}":`, error);
+        this.handleError(error, {
+          channelName,
+          operation: 'receive',
+          data,
+          listenerId,
+          callback,
+        });
       }
     };
 
-    channel.addEventListener('message', messageHandler);
-    this.listeners.get(channelName)!.set(listenerId, messageHandler);
+    const handler = (message: unknown) => {
+      // Raw messages from senders without envelopes are delivered without metadata
+      if (!isBroadcastEnvelope(message)) {
+        deliver(message, undefined);
+        return;
+      }
+
+      const { meta, data, local } = message;
+      if (options.excludeSelf && meta.senderId === this.tabId) {
+        return;
+      }
+      // Skip echoes of this service's messages that were already delivered locally
+      if (meta.messageId.startsWith(this.messageIdPrefix) && (local || options.includeSelf)) {
+        return;
+      }
+
+      deliver(data, meta);
+    };
+
+    const stop = channel.onMessage(handler);
+    this.listeners.get(channelName)!.set(listenerId, { stop, deliver, options });
 
     return listenerId;
   }
@@ -43,14 +231,14 @@ export class BroadcastService implements IBroadcastService {
    * @param channelName - The name of the channel
    * @param listenerId - The ID of the listener to remove
    */
-  unsubscribe(channelName: string, listenerId: string): void {
+  unsubscribe(channelName: ChannelKey<TChannels>, listenerId: string): void {
     const channel = this.channels.get(channelName);
     const listeners = this.listeners.get(channelName);
 
     if (channel && listeners) {
-      const messageHandler = listeners.get(listenerId);
-      if (messageHandler) {
-        channel.removeEventListener('message', messageHandler);
+      const listener = listeners.get(listenerId);
+      if (listener) {
+        listener.stop();
         listeners.delete(listenerId);
       }
     }
@@ -58,33 +246,205 @@ export class BroadcastService implements IBroadcastService {
 
   /**
    * Broadcast data to all subscribers of a channel
+   * The data is wrapped in an envelope carrying the message metadata
    * @param channelName - The name of the channel to broadcast to
-   * @param data - The data to broadcast
+   * @param data - The data to broadcast, required unless the channel's type accepts `undefined`
+   * @param options - Optional `local` flag to also deliver to this service's subscribers
    */
-  broadcast(channelName: string, data?: any): void {
-    if (!this.channels.has(channelName)) {
-      this.channels.set(channelName, new BroadcastChannel(channelName));
-    }
+  broadcast<K extends ChannelKey<TChannels>>(
+    channelName: K,
+    ...[data, options = {}]: BroadcastArgs<TChannels, K>
+  ): void {
+    const channel = this.openChannel(channelName);
+    const local = options.local ?? false;
+    const envelope: BroadcastEnvelope<TChannels[K] | undefined> = {
+      __broadcastEnvelope: true,
+      meta: this.createMeta(),
+      data,
+      local,
+    };
 
     try {
-      this.channels.get(channelName)!.postMessage(data);
+      channel.post(envelope);
     } catch (error) {
-      console.error(`Error broadcasting to "${channelName}":`, error);
+      this.handleError(error, { channelName, operation: 'broadcast', data });
     }
+
+    this.listeners.get(channelName)?.forEach((listener) => {
+      if (!listener.options.excludeSelf && (local || listener.options.includeSelf)) {
+        listener.deliver(data, envelope.meta);
+      }
+    });
+  }
+
+  /**
+   * Call a method handled by other tabs and wait for the response
+   * @param channelName - The RPC channel; handlers and requests only meet on the same channel
+   * @param method - The method to call
+   * @param params - Parameters passed to the handler
+   * @param options - Optional `timeout` (defaults to 5000ms), `signal` and `mode`
+   * @returns Promise resolving with the first response, or with every response in `all` mode
+   * @throws RpcError when the first responding handler failed, TimeoutError when no tab responded
+   */
+  request<TResult = unknown>(
+    channelName: string,
+    method: string,
+    params?: unknown,
+    options?: RpcRequestOptions & { mode?: 'first' }
+  ): Promise<TResult>;
+  request<TResult = unknown>(
+    channelName: string,
+    method: string,
+    params: unknown,
+    options: RpcRequestOptions & { mode: 'all' }
+  ): Promise<RpcResponse<TResult>[]>;
+  request(
+    channelName: string,
+    method: string,
+    params?: unknown,
+    options: RpcRequestOptions = {}
+  ): Promise<unknown> {
+    const { timeout = 5000, signal, mode = 'first' } = options;
+    const rpcChannel = `${RPC_CHANNEL_PREFIX}${channelName}`;
+    const id = createId();
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const responses: RpcResponse[] = [];
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const onAbort = () => {
+        cleanup();
+        reject(signal!.reason);
+      };
+
+      const cleanup = () => {
+        this.unlisten(rpcChannel, listenerId);
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const listenerId = this.listen(rpcChannel, (message: RpcMessage, meta) => {
+        if (message?.kind !== 'response' || message.id !== id) {
+          return;
+        }
+
+        const senderId = meta?.senderId ?? '';
+        const response: RpcResponse = message.error
+          ? {
+              status: 'rejected',
+              reason: new RpcError(message.error.message, message.error.name, message.error.stack),
+              senderId,
+            }
+          : { status: 'fulfilled', value: message.result, senderId };
+
+        if (mode === 'all') {
+          responses.push(response);
+          return;
+        }
+
+        cleanup();
+        if (response.status === 'fulfilled') {
+          resolve(response.value);
+        } else {
+          reject(response.reason);
+        }
+      });
+
+      timer = setTimeout(() => {
+        cleanup();
+        if (mode === 'all') {
+          resolve(responses);
+        } else {
+          reject(
+            new TimeoutError(
+              `Timed out waiting for a response to "${method}" on "${channelName}" after ${timeout}ms`
+            )
+          );
+        }
+      }, timeout);
+      signal?.addEventListener('abort', onAbort);
+
+      const request: RpcMessage = { kind: 'request', id, method, params };
+      try {
+        this.post(rpcChannel, request);
+      } catch (error) {
+        // Thrown in strict mode or by `onError`, e.g. for params that cannot be cloned
+        cleanup();
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Answer requests for a method from other tabs
+   * @param channelName - The RPC channel to answer on
+   * @param method - The method to answer
+   * @param handler - Function returning (or resolving with) the result; thrown errors are sent back
+   * @returns Subscription that removes the handler
+   */
+  handle<TParams = any, TResult = unknown>(
+    channelName: string,
+    method: string,
+    handler: RpcHandler<TParams, TResult>
+  ): Subscription {
+    const rpcChannel = `${RPC_CHANNEL_PREFIX}${channelName}`;
+
+    const listenerId = this.listen(rpcChannel, (message: RpcMessage, meta) => {
+      if (message?.kind !== 'request' || message.method !== method) {
+        return;
+      }
+
+      const { id } = message;
+      const respondWithError = (error: unknown) => {
+        const response: RpcMessage = { kind: 'response', id, error: serializeError(error) };
+        try {
+          this.respond(rpcChannel, response);
+        } catch (postError) {
+          // The caller times out; there is no caller to rethrow to, even in strict mode
+          this.handleError(
+            postError,
+            { channelName: rpcChannel, operation: 'broadcast', data: response },
+            false
+          );
+        }
+      };
+
+      new Promise<TResult>((resolve) => resolve(handler(message.params as TParams, meta))).then(
+        (result) => {
+          const response: RpcMessage = { kind: 'response', id, result };
+          try {
+            this.respond(rpcChannel, response);
+          } catch (error) {
+            // E.g. a result that cannot be cloned; the caller gets the error instead of a timeout
+            respondWithError(error);
+          }
+        },
+        respondWithError
+      );
+    });
+
+    return createSubscription(() => {
+      this.unlisten(rpcChannel, listenerId);
+    });
   }
 
   /**
    * Close a specific channel and remove all listeners
    * @param channelName - The name of the channel to close
    */
-  close(channelName: string): void {
+  close(channelName: ChannelKey<TChannels>): void {
     const channel = this.channels.get(channelName);
     const listeners = this.listeners.get(channelName);
 
     if (channel && listeners) {
       // Remove all event listeners
       listeners.forEach((listener) => {
-        channel.removeEventListener('message', listener);
+        listener.stop();
       });
 
       channel.close();
@@ -101,7 +461,7 @@ export class BroadcastService implements IBroadcastService {
       const listeners = this.listeners.get(channelName);
       if (listeners) {
         listeners.forEach((listener) => {
-          channel.removeEventListener('message', listener);
+          listener.stop();
         });
       }
       channel.close();
@@ -114,8 +474,8 @@ export class BroadcastService implements IBroadcastService {
    * Get all active channel names
    * @returns An array of channel names that are currently active
    */
-  getActiveChannels(): string[] {
-    return Array.from(this.channels.keys());
+  getActiveChannels(): ChannelKey<TChannels>[] {
+    return Array.from(this.channels.keys()) as ChannelKey<TChannels>[];
   }
 
   /**
@@ -123,9 +483,94 @@ export class BroadcastService implements IBroadcastService {
    * @param channelName - The name of the channel to check
    * @returns True if the channel is active, false otherwise
    */
-  isChannelActive(channelName: string): boolean {
+  isChannelActive(channelName: ChannelKey<TChannels>): boolean {
     return this.channels.has(channelName);
   }
+
+  /**
+   * Get the transport channel for a name, opening it on first use
+   */
+  private openChannel(channelName: string): TransportChannel {
+    let channel = this.channels.get(channelName);
+    if (!channel) {
+      channel = this.transport.open(channelName);
+      this.channels.set(channelName, channel);
+    }
+    return channel;
+  }
+
+  /**
+   * Subscribe to an internal channel outside the channel map
+   */
+  private listen(channelName: string, callback: BroadcastCallback<any>): string {
+    return (this as BroadcastService<any>).subscribe(channelName, callback);
+  }
+
+  /**
+   * Unsubscribe from an internal channel outside the channel map
+   */
+  private unlisten(channelName: string, listenerId: string): void {
+    (this as BroadcastService<any>).unsubscribe(channelName, listenerId);
+  }
+
+  /**
+   * Broadcast on an internal channel outside the channel map
+   */
+  private post(channelName: string, data: unknown): void {
+    (this as BroadcastService<any>).broadcast(channelName, data);
+  }
+
+  /**
+   * Send an RPC response on an internal channel
+   * Unlike `post`, transport errors are always thrown, so they can be sent back instead
+   */
+  private respond(channelName: string, response: RpcMessage): void {
+    const envelope: BroadcastEnvelope<RpcMessage> = {
+      __broadcastEnvelope: true,
+      meta: this.createMeta(),
+      data: response,
+      local: false,
+    };
+    this.openChannel(channelName).post(envelope);
+  }
+
+  /**
+   * Create the metadata for the next outgoing message
+   */
+  private createMeta(): BroadcastMessageMeta {
+    const seq = ++this.seq;
+    return {
+      senderId: this.tabId,
+      seq,
+      timestamp: Date.now(),
+      messageId: `${this.messageIdPrefix}${seq}`,
+      version: this.options.version ?? 1,
+    };
+  }
+
+  /**
+   * Report an error to `onError` (or the console)
+   * @throws The original error if `rethrow` is set, which defaults to strict mode
+   */
+  private handleError(
+    error: unknown,
+    context: BroadcastErrorContext,
+    rethrow = this.options.strict ?? false
+  ): void {
+    if (this.options.onError) {
+      this.options.onError(error, context);
+    } else if (!rethrow) {
+      const message =
+        context.operation === 'receive'
+          ? `Error in broadcast callback for "${context.channelName}":`
+          : `Error broadcasting to "${context.channelName}":`;
+      console.error(message, error);
+    }
+
+    if (rethrow) {
+      throw error;
+    }
+  }
 }
 
 /**
@@ -0,0 +1,118 @@
+import type {
+  DefaultEventMap,
+  EventKeyOrPattern,
+  EventMap,
+  EventPayload,
+  Subscription,
+} from '../types/events';
+import { BroadcastService, broadcastService as defaultBroadcastService } from './BroadcastService';
+import { EventService, eventService as defaultEventService } from './EventService';
+import { isEventPattern, matchEventPattern } from './pattern';
+import { emitRelayed, isRelayed } from './relay';
+import { createSubscription } from './subscription';
+
+/**
+ * Broadcast channel used by bridges unless `channelName` is given
+ */
+export const DEFAULT_BRIDGE_CHANNEL = 'event-bridge';
+
+/**
+ * Options for bridging an event service to other tabs
+ */
+export type EventBridgeOptions<TEvents extends EventMap = DefaultEventMap> = {
+  /**
+   * Event names or wildcard patterns to mirror between tabs
+   */
+  eventTypes: EventKeyOrPattern<TEvents>[];
+
+  /**
+   * Event service to mirror (defaults to the singleton)
+   */
+  eventService?: EventService<TEvents>;
+
+  /**
+   * Broadcast service carrying the events (defaults to the singleton)
+   */
+  broadcastService?: BroadcastService<any>;
+
+  /**
+   * Broadcast channel carrying the events (defaults to `event-bridge`)
+   */
+  channelName?: string;
+};
+
+/**
+ * Mirror selected events of an event service to other tabs and back
+ * Local emits of the selected types are broadcast, and events received from
+ * other tabs are emitted locally. Events received from another tab are marked and
+ * not broadcast again, so bridges in several tabs do not echo each other, also
+ * behind async middleware or middleware that replaces the payload.
+ * The bridge listens to each event type at the highest priority, so `stopPropagation()`
+ * in a listener does not stop mirroring; cancel the event in middleware to keep it local.
+ * @param options - Event types to mirror, plus optional services and channel name
+ * @returns Subscription that stops the bridge
+ * @example
+ * ```ts
+ * type AppEvents = { 'cart:updated': { items: string[] }; 'user:login': { id: string } };
+ * const appEvents = new EventService<AppEvents>();
+ *
+ * const bridge = createEventBridge({ eventService: appEvents, eventTypes: ['cart:*'] });
+ * appEvents.emit('cart:updated', { items: [] }); // Also emitted in every other bridged tab
+ * bridge.unsubscribe();
+ * ```
+ */
+export function createEventBridge<TEvents extends EventMap = DefaultEventMap>(
+  options: EventBridgeOptions<TEvents>
+): Subscription {
+  const {
+    eventTypes,
+    broadcastService = defaultBroadcastService,
+    channelName = DEFAULT_BRIDGE_CHANNEL,
+  } = options;
+  // Event types are only known as strings at runtime, so the service is used untyped
+  const eventService: EventService<any> = options.eventService ?? defaultEventService;
+
+  const isBridged = (eventType: string) =>
+    eventTypes.some((pattern) =>
+      isEventPattern(pattern) ? matchEventPattern(pattern, eventType) : pattern === eventType
+    );
+
+  // Listeners of overlapping event types receive the same payload, which is broadcast once
+  const broadcastPayloads = new WeakSet<EventPayload<unknown>>();
+
+  // Sticky payloads replayed while subscribing are old news for other tabs
+  let subscribing = true;
+  const subscriptions = eventTypes.map((eventType) =>
+    eventService.on(
+      eventType,
+      (payload) => {
+        if (subscribing || isRelayed(payload) || broadcastPayloads.has(payload)) {
+          return;
+        }
+        broadcastPayloads.add(payload);
+
+        const message: EventPayload<unknown> = { type: payload.type, data: payload.data };
+        broadcastService.broadcast(channelName, message);
+      },
+      { priority: Infinity }
+    )
+  );
+  subscribing = false;
+
+  const listenerId = broadcastService.subscribe(
+    channelName,
+    (message: EventPayload<unknown> | undefined) => {
+      if (!message || !isBridged(message.type)) {
+        return;
+      }
+
+      emitRelayed(eventService, message.type, message.data);
+    },
+    { excludeSelf: true }
+  );
+
+  return createSubscription(() => {
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+    broadcastService.unsubscribe(channelName, listenerId);
+  });
+}
@@ -1,89 +1,705 @@
-import type { EventListener, EventPayload, IEventService } from '../types/events';
+import type {
+  DefaultEventMap,
+  EmitAsyncOptions,
+  EventData,
+  EventKey,
+  EventKeyOrPattern,
+  EventListener,
+  EventMap,
+  EventPayload,
+  EmittedEventPayload,
+  EventErrorContext,
+  EventMiddleware,
+  EventServiceOptions,
+  IEventService,
+  ListenerOptions,
+  Subscription,
+  WaitForOptions,
+} from '../types/events';
+import { TimeoutError } from './errors';
+import { isEventPattern, matchEventPattern } from './pattern';
+import { markRelayed, registerRelay } from './relay';
+import { createSubscription } from './subscription';
+
+/**
+ * Listener registered through `once`, remembering the original callback so
+ * that `off` with the original callback still removes it
+ */
+type OnceListener = EventListener<any> & { original: EventListener<any> };
+
+/**
+ * Payload kept for a sticky event type, with its emission order
+ */
+type StickyEntry = {
+  payload: EventPayload<unknown>;
+  sequence: number;
+};
+
+/**
+ * Meta-event emitted when a listener throws
+ */
+const ERROR_EVENT = 'error';
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | undefined)?.then === 'function';
+}
+
+/**
+ * Registered listener with its ordering information
+ */
+type ListenerEntry = {
+  listener: EventListener<any>;
+  priority: number;
+  order: number;
+  active: boolean;
+};
 
 /**
  * Pure TypeScript implementation of an event bus
  * Supports type-safe event emission and subscription
+ * @example
+ * ```ts
+ * type AppEvents = { 'user:updated': { name: string } };
+ *
+ * const events = new EventService<AppEvents>();
+ * events.emit('user:updated', { name: 'Kim' }); // OK
+ * events.emit('user:updated', { id: 1 }); // Compile error: wrong payload
+ * events.emit('user:deleted', {}); // Compile error: unknown event
+ *
+ * events.on('user:*', ({ type, data }) => console.log(type, data)); // Wildcard pattern
+ * events.on('user:updated', auditLog, { priority: 10 }); // Runs before default priority 0
+ *
+ * const strictEvents = new EventService({ strict: true }); // Listener errors are rethrown
+ * const stickyEvents = new EventService({ sticky: true }); // Late subscribers get the last payload
+ * ```
  */
-export class EventService implements IEventService {
-  private listeners: Map<string, Set<EventListener<any>>> = new Map();
+export class EventService<TEvents extends EventMap = DefaultEventMap>
+  implements IEventService<TEvents>
+{
+  private listeners: Map<string, ListenerEntry[]> = new Map();
+  private patterns: Set<string> = new Set();
+  private registrationCounter = 0;
+  private middlewares: EventMiddleware[] = [];
+  private stickyLimits: Map<string, number> = new Map();
+  private stickyPayloads: Map<string, StickyEntry[]> = new Map();
+  private emitCounter = 0;
+  private options: EventServiceOptions;
+
+  /**
+   * Create an event service
+   * @param options - Optional `onError` handler and `strict` mode for listener errors,
+   *   and `sticky` to keep the last payloads of every event type for late subscribers
+   */
+  constructor(options: EventServiceOptions = {}) {
+    this.options = options;
+    registerRelay(this, (eventType, data) => this.emitEvent(eventType, data, true));
+  }
 
   /**
    * Emit an event to all registered listeners
+   * Listeners run by priority (highest first), then in registration order, across
+   * exact and wildcard pattern subscriptions. A listener can call
+   * `payload.stopPropagation()` to skip the remaining listeners for this emit.
+   * Listener errors are reported to `onError` (or logged) and the `error` meta-event;
+   * in strict mode the error is rethrown and the remaining listeners are skipped.
+   * The event passes through the middleware registered with `use` first. Async middleware
+   * is not awaited; if it rejects, the error is reported like a listener error.
    * @param eventType - The type of event to emit
    * @param data - The data to send with the event
    */
-  emit<T>(eventType: string, data: T): void {
-    const eventListeners = this.listeners.get(eventType);
-    if (eventListeners) {
-      const payload: EventPayload<T> = { type: eventType, data };
-      eventListeners.forEach((listener) => {
-        try {
-          listener(payload);
-        } catch (error) {
-          console.error(`Error in event listener for "${eventType}":`, error);
+  emit<K extends EventKey<TEvents>>(eventType: K, data: TEvents[K]): void {
+    this.emitEvent(eventType, data, false);
+  }
+
+  /**
+   * Pass an event through the middleware and deliver it to its listeners
+   * @param relayed - Whether an event bridge received the event from another tab; kept
+   *   outside the payload, so middleware that replaces the payload cannot drop it
+   */
+  private emitEvent(eventType: string, data: unknown, relayed: boolean): void {
+    const event: EventPayload<unknown> = { type: eventType, data };
+    // In strict mode `dispatch` reports listener errors before rethrowing them
+    let dispatchError: { error: unknown } | undefined;
+    const result = this.runMiddleware(event, (payload) => {
+      try {
+        this.dispatch(payload, relayed);
+      } catch (error) {
+        dispatchError = { error };
+        throw error;
+      }
+    });
+
+    if (isPromiseLike(result)) {
+      // `emit` has returned by now, so the error cannot be rethrown to its caller
+      Promise.resolve(result).catch((error) => {
+        if (dispatchError && dispatchError.error === error) {
+          return;
         }
+        this.handleListenerError(error, { eventType, payload: event }, false);
       });
     }
   }
 
+  /**
+   * Emit an event and await all listeners, including async ones
+   * Listeners are called in the same order as `emit` and may stop propagation.
+   * Async middleware is awaited before the listeners run.
+   * @param eventType - The type of event to emit
+   * @param data - The data to send with the event
+   * @param options - Optional `mode`: `parallel` (default) or `sequential`
+   * @returns Promise resolving with each listener's result in call order
+   *   (an empty array if middleware cancelled the event)
+   * @throws AggregateError with every listener error if any listener throws or rejects
+   * @example
+   * ```ts
+   * await eventService.emitAsync('app:shutdown', undefined, { mode: 'sequential' });
+   * ```
+   */
+  async emitAsync<K extends EventKey<TEvents>>(
+    eventType: K,
+    data: TEvents[K],
+    options: EmitAsyncOptions = {}
+  ): Promise<unknown[]> {
+    let dispatched: Promise<unknown[]> | undefined;
+
+    await this.runMiddleware({ type: eventType, data }, (payload) => {
+      dispatched = this.dispatchAsync(payload, options);
+      // Middleware may not await `next()`, so a rejection must not go unhandled until
+      // the middleware settles; it is still rethrown below
+      dispatched.catch(() => {});
+      return dispatched;
+    });
+
+    // Awaited separately so middleware that does not return `next()` is still covered
+    return dispatched ? await dispatched : [];
+  }
+
+  /**
+   * Add a middleware that every emitted event passes through before reaching listeners
+   * Middleware runs in registration order. It can transform the event by passing a new
+   * payload to `next`, or cancel it by not calling `next`.
+   * @param middleware - Function receiving the payload and the `next` step
+   * @returns Subscription that removes the middleware
+   * @example
+   * ```ts
+   * eventService.use((payload, next) => {
+   *   console.log('emit', payload.type);
+   *   return next({ ...payload, data: { ...payload.data, timestamp: Date.now() } });
+   * });
+   * ```
+   */
+  use(middleware: EventMiddleware): Subscription {
+    this.middlewares.push(middleware);
+
+    return createSubscription(() => {
+      const index = this.middlewares.indexOf(middleware);
+      if (index !== -1) {
+        this.middlewares.splice(index, 1);
+      }
+    });
+  }
+
+  /**
+   * Deliver an event that passed the middleware to its listeners
+   */
+  private dispatch(event: EventPayload<unknown>, relayed: boolean): void {
+    const { type: eventType, data } = event;
+    this.recordSticky(event);
+    let propagationStopped = false;
+    const payload = this.createPayload(eventType, data, () => {
+      propagationStopped = true;
+    });
+    if (relayed) {
+      markRelayed(payload);
+    }
+
+    for (const entry of this.matchingEntries(eventType)) {
+      if (propagationStopped) {
+        break;
+      }
+      if (!entry.active) {
+        continue;
+      }
+
+      try {
+        entry.listener(payload);
+      } catch (error) {
+        this.handleListenerError(error, { eventType, listener: entry.listener, payload });
+      }
+    }
+  }
+
+  /**
+   * Deliver an event that passed the middleware to its listeners and await them
+   */
+  private async dispatchAsync(
+    event: EventPayload<unknown>,
+    options: EmitAsyncOptions
+  ): Promise<unknown[]> {
+    const { type: eventType, data } = event;
+    const { mode = 'parallel' } = options;
+    this.recordSticky(event);
+    let propagationStopped = false;
+    const payload = this.createPayload(eventType, data, () => {
+      propagationStopped = true;
+    });
+
+    const outcomes: PromiseSettledResult<unknown>[] = [];
+    const pending: Promise<unknown>[] = [];
+
+    for (const entry of this.matchingEntries(eventType)) {
+      if (propagationStopped) {
+        break;
+      }
+      if (!entry.active) {
+        continue;
+      }
+
+      // Wrapping the call also turns synchronous throws into rejections
+      const result = new Promise((resolve) => resolve(entry.listener(payload)));
+
+      if (mode === 'sequential') {
+        outcomes.push(...(await Promise.allSettled([result])));
+      } else {
+        pending.push(result);
+      }
+    }
+
+    outcomes.push(...(await Promise.allSettled(pending)));
+
+    const errors = outcomes
+      .filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected')
+      .map((outcome) => outcome.reason);
+
+    if (errors.length > 0) {
+      throw new AggregateError(
+        errors,
+        `${errors.length} listener(s) failed for "${eventType}"`
+      );
+    }
+
+    return outcomes.map((outcome) => (outcome as PromiseFulfilledResult<unknown>).value);
+  }
+
+  /**
+   * Pass an event through the middleware chain, ending with the given dispatch step
+   * @returns Whatever the first middleware (or the dispatch step) returns
+   */
+  private runMiddleware(
+    event: EventPayload<unknown>,
+    dispatch: (event: EventPayload<unknown>) => unknown
+  ): unknown {
+    const middlewares = this.middlewares.slice();
+
+    const run = (index: number, current: EventPayload<unknown>): unknown => {
+      if (index === middlewares.length) {
+        return dispatch(current);
+      }
+      return middlewares[index](current, (next = current) => run(index + 1, next));
+    };
+
+    return run(0, event);
+  }
+
   /**
    * Subscribe to an event
-   * @param eventType - The type of event to listen for
+   * Registering the same listener again for the same event type is a no-op.
+   * Payloads kept for sticky event types are replayed to the new listener immediately.
+   * @param eventType - The type of event to listen for, or a wildcard pattern such as `user:*`
    * @param listener - The callback function to execute when the event is emitted
+   * @param options - Optional listener priority (higher runs first, defaults to 0)
+   * @returns Subscription that removes the listener
    */
-  on<T>(eventType: string, listener: EventListener<T>): void {
+  on<K extends EventKeyOrPattern<TEvents>>(
+    eventType: K,
+    listener: EventListener<EventData<TEvents, K>>,
+    options: ListenerOptions = {}
+  ): Subscription {
     if (!this.listeners.has(eventType)) {
-      this.listeners.set(eventType, new Set());
+      this.listeners.set(eventType, []);
+      if (isEventPattern(eventType)) {
+        this.patterns.add(eventType);
+      }
     }
 
-    this.listeners.get(eventType)!.add(listener as EventListener<any>);
+    const entries = this.listeners.get(eventType)!;
+
+    if (!entries.some((entry) => entry.listener === listener)) {
+      const priority = options.priority ?? 0;
+      const entry: ListenerEntry = {
+        listener: listener as EventListener<any>,
+        priority,
+        order: ++this.registrationCounter,
+        active: true,
+      };
+
+      // Keep entries sorted by priority, registration order breaks ties
+      const index = entries.findIndex((existing) => existing.priority < priority);
+      if (index === -1) {
+        entries.push(entry);
+      } else {
+        entries.splice(index, 0, entry);
+      }
+
+      this.replaySticky(eventType, entry);
+    }
+
+    return createSubscription(() => this.off(eventType, listener));
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   * @param eventType - The type of event to listen for, or a wildcard pattern
+   * @param listener - The callback function to execute once when the event is emitted
+   * @param options - Optional listener priority (higher runs first, defaults to 0)
+   * @returns Subscription that removes the listener before it fires
+   */
+  once<K extends EventKeyOrPattern<TEvents>>(
+    eventType: K,
+    listener: EventListener<EventData<TEvents, K>>,
+    options: ListenerOptions = {}
+  ): Subscription {
+    const onceListener = ((payload: EmittedEventPayload<EventData<TEvents, K>>) => {
+      this.off(eventType, onceListener);
+      listener(payload);
+    }) as OnceListener;
+    onceListener.original = listener as EventListener<any>;
+
+    return this.on(eventType, onceListener, options);
+  }
+
+  /**
+   * Wait for the next occurrence of an event
+   * @param eventType - The type of event to wait for, or a wildcard pattern
+   * @param options - Optional timeout, abort signal and payload predicate
+   * @returns Promise resolving with the payload of the first matching event
+   * @example
+   * ```ts
+   * const { data } = await eventService.waitFor('auth:ready', { timeout: 5000 });
+   * ```
+   */
+  waitFor<K extends EventKeyOrPattern<TEvents>>(
+    eventType: K,
+    options: WaitForOptions<EventData<TEvents, K>> = {}
+  ): Promise<EventPayload<EventData<TEvents, K>>> {
+    const { timeout, signal, predicate } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      let settled = false;
+      let subscription: Subscription | undefined;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const onAbort = () => {
+        cleanup();
+        reject(signal!.reason);
+      };
+
+      const cleanup = () => {
+        settled = true;
+        subscription?.unsubscribe();
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      subscription = this.on(eventType, (payload) => {
+        if (settled) {
+          return;
+        }
+
+        try {
+          if (predicate && !predicate(payload)) {
+            return;
+          }
+        } catch (error) {
+          cleanup();
+          reject(error);
+          return;
+        }
+
+        cleanup();
+        resolve(payload);
+      });
+
+      // A sticky event may already have been replayed while subscribing
+      if (settled) {
+        subscription.unsubscribe();
+        return;
+      }
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(new TimeoutError(`Timed out waiting for "${eventType}" after ${timeout}ms`));
+        }, timeout);
+      }
+
+      signal?.addEventListener('abort', onAbort);
+    });
   }
 
   /**
    * Unsubscribe from an event
-   * @param eventType - The type of event to stop listening for
+   * @param eventType - The type of event or wildcard pattern to stop listening for
    * @param listener - The callback function to remove
    */
-  off<T>(eventType: string, listener: EventListener<T>): void {
-    const eventListeners = this.listeners.get(eventType);
-    if (eventListeners) {
-      eventListeners.delete(listener as EventListener<any>);
-      if (eventListeners.size === 0) {
-        this.listeners.delete(eventType);
+  off<K extends EventKeyOrPattern<TEvents>>(
+    eventType: K,
+    listener: EventListener<EventData<TEvents, K>>
+  ): void {
+    const entries = this.listeners.get(eventType);
+    if (entries) {
+      let index = entries.findIndex((entry) => entry.listener === listener);
+      if (index === -1) {
+        index = entries.findIndex(
+          (entry) => (entry.listener as OnceListener).original === listener
+        );
+      }
+      if (index !== -1) {
+        entries[index].active = false;
+        entries.splice(index, 1);
+      }
+      if (entries.length === 0) {
+        this.clear(eventType);
       }
     }
   }
 
   /**
    * Clear all listeners for a specific event type
-   * @param eventType - The type of event to clear listeners for
+   * @param eventType - The type of event or wildcard pattern to clear listeners for
    */
-  clear(eventType: string): void {
+  clear(eventType: EventKeyOrPattern<TEvents>): void {
+    this.listeners.get(eventType)?.forEach((entry) => {
+      entry.active = false;
+    });
     this.listeners.delete(eventType);
+    this.patterns.delete(eventType);
   }
 
   /**
    * Clear all listeners for all events
    */
   clearAll(): void {
+    this.listeners.forEach((entries) => {
+      entries.forEach((entry) => {
+        entry.active = false;
+      });
+    });
     this.listeners.clear();
+    this.patterns.clear();
+  }
+
+  /**
+   * Make an event type sticky: its last payloads are kept and replayed to new subscribers
+   * Overrides the service-wide `sticky` option for this event type
+   * @param eventType - The event type to configure
+   * @param limit - Number of payloads to keep; `true` keeps the last one, `false` or `0` disables
+   */
+  setSticky(eventType: EventKey<TEvents>, limit: number | boolean = true): void {
+    const resolvedLimit = this.resolveStickyLimit(limit);
+    this.stickyLimits.set(eventType, resolvedLimit);
+
+    const kept = this.stickyPayloads.get(eventType);
+    if (kept) {
+      if (resolvedLimit === 0) {
+        this.stickyPayloads.delete(eventType);
+      } else {
+        kept.splice(0, Math.max(0, kept.length - resolvedLimit));
+      }
+    }
+  }
+
+  /**
+   * Get the last payload kept for a sticky event type
+   * @param eventType - The event type to look up
+   * @returns The last payload, or undefined if none was kept
+   */
+  getLast<K extends EventKey<TEvents>>(eventType: K): EventPayload<TEvents[K]> | undefined {
+    const kept = this.stickyPayloads.get(eventType);
+    return kept?.[kept.length - 1]?.payload as EventPayload<TEvents[K]> | undefined;
+  }
+
+  /**
+   * Drop the payloads kept for sticky events
+   * @param eventType - Optional event type; clears every type if omitted
+   */
+  clearSticky(eventType?: EventKey<TEvents>): void {
+    if (eventType === undefined) {
+      this.stickyPayloads.clear();
+    } else {
+      this.stickyPayloads.delete(eventType);
+    }
   }
 
   /**
    * Get the number of listeners for a specific event type
-   * @param eventType - The type of event to check
+   * For a concrete event type this includes listeners of matching wildcard patterns,
+   * i.e. the number of listeners an emit would reach. For a pattern it is the number
+   * of listeners subscribed with that exact pattern.
+   * @param eventType - The type of event or wildcard pattern to check
    * @returns The number of listeners registered for the event
    */
-  listenerCount(eventType: string): number {
-    return this.listeners.get(eventType)?.size || 0;
+  listenerCount(eventType: EventKeyOrPattern<TEvents>): number {
+    if (isEventPattern(eventType)) {
+      return this.listeners.get(eventType)?.length || 0;
+    }
+
+    return this.matchingEntries(eventType).length;
   }
 
   /**
    * Get all registered event types
-   * @returns An array of all event types that have listeners
+   * @returns An array of all event types and wildcard patterns that have listeners
+   */
+  eventTypes(): EventKeyOrPattern<TEvents>[] {
+    return Array.from(this.listeners.keys()) as EventKeyOrPattern<TEvents>[];
+  }
+
+  /**
+   * Report a listener or async middleware error to `onError` (or the console) and the
+   * `error` meta-event
+   * @throws The original error if `rethrow` is set, which defaults to strict mode
+   */
+  private handleListenerError(
+    error: unknown,
+    context: EventErrorContext,
+    rethrow = this.options.strict ?? false
+  ): void {
+    if (this.options.onError) {
+      this.options.onError(error, context);
+    } else if (!rethrow) {
+      const source = context.listener ? 'listener' : 'middleware';
+      console.error(`Error in event ${source} for "${context.eventType}":`, error);
+    }
+
+    // Errors thrown by `error` listeners are only logged to avoid reporting loops
+    if (context.eventType !== ERROR_EVENT) {
+      let propagationStopped = false;
+      const payload = this.createPayload(ERROR_EVENT, { error, context }, () => {
+        propagationStopped = true;
+      });
+
+      for (const entry of this.listeners.get(ERROR_EVENT)?.slice() ?? []) {
+        if (propagationStopped) {
+          break;
+        }
+        try {
+          entry.listener(payload);
+        } catch (metaError) {
+          console.error(`Error in event listener for "${ERROR_EVENT}":`, metaError);
+        }
+      }
+    }
+
+    if (rethrow) {
+      throw error;
+    }
+  }
+
+  /**
+   * Number of payloads to keep for an event type
+   */
+  private stickyLimit(eventType: string): number {
+    return this.stickyLimits.get(eventType) ?? this.resolveStickyLimit(this.options.sticky ?? false);
+  }
+
+  private resolveStickyLimit(limit: number | boolean): number {
+    if (typeof limit === 'boolean') {
+      return limit ? 1 : 0;
+    }
+    return Math.max(0, Math.floor(limit));
+  }
+
+  /**
+   * Keep an emitted payload if its event type is sticky
+   */
+  private recordSticky(event: EventPayload<unknown>): void {
+    const limit = this.stickyLimit(event.type);
+    if (limit === 0) {
+      return;
+    }
+
+    const kept = this.stickyPayloads.get(event.type) ?? [];
+    kept.push({ payload: { type: event.type, data: event.data }, sequence: ++this.emitCounter });
+    kept.splice(0, Math.max(0, kept.length - limit));
+    this.stickyPayloads.set(event.type, kept);
+  }
+
+  /**
+   * Replay kept payloads of the matching sticky event types to a new listener, oldest first
+   */
+  private replaySticky(eventType: string, entry: ListenerEntry): void {
+    if (this.stickyPayloads.size === 0) {
+      return;
+    }
+
+    const replay: StickyEntry[] = isEventPattern(eventType)
+      ? Array.from(this.stickyPayloads.entries())
+          .filter(([type]) => matchEventPattern(eventType, type))
+          .flatMap(([, kept]) => kept)
+          .sort((a, b) => a.sequence - b.sequence)
+      : (this.stickyPayloads.get(eventType) ?? []).slice();
+
+    for (const { payload: kept } of replay) {
+      // A `once` listener removes itself after the first replay
+      if (!entry.active) {
+        break;
+      }
+
+      const payload = this.createPayload(kept.type, kept.data, () => {});
+      try {
+        entry.listener(payload);
+      } catch (error) {
+        this.handleListenerError(error, { eventType: kept.type, listener: entry.listener, payload });
+      }
+    }
+  }
+
+  /**
+   * Build the payload delivered to listeners
+   * `stopPropagation` is non-enumerable so payloads still compare and serialize as `{ type, data }`
    */
-  eventTypes(): string[] {
-    return Array.from(this.listeners.keys());
+  private createPayload<T>(
+    eventType: string,
+    data: T,
+    stopPropagation: () => void
+  ): EmittedEventPayload<T> {
+    const payload = { type: eventType, data } as EmittedEventPayload<T>;
+    Object.defineProperty(payload, 'stopPropagation', { value: stopPropagation });
+    return payload;
+  }
+
+  /**
+   * Collect the listeners an emit of the given event type reaches
+   * @param eventType - The concrete event type
+   * @returns Snapshot of exact and matching pattern listeners in call order
+   */
+  private matchingEntries(eventType: string): ListenerEntry[] {
+    const lists: ListenerEntry[][] = [];
+
+    const exactEntries = this.listeners.get(eventType);
+    if (exactEntries) {
+      lists.push(exactEntries);
+    }
+
+    this.patterns.forEach((pattern) => {
+      if (pattern !== eventType && matchEventPattern(pattern, eventType)) {
+        lists.push(this.listeners.get(pattern)!);
+      }
+    });
+
+    if (lists.length === 1) {
+      return lists[0].slice();
+    }
+
+    return lists
+      .flat()
+      .sort((a, b) => b.priority - a.priority || a.order - b.order);
   }
 }
 
@@ -0,0 +1,298 @@
+import type { Subscription } from '../types/events';
+import { BroadcastService, broadcastService as defaultBroadcastService } from './BroadcastService';
+import { createId } from './id';
+import { createSubscription } from './subscription';
+
+/**
+ * Prefix of the broadcast channel and Web Lock used for each election
+ */
+export const LEADER_ELECTION_CHANNEL_PREFIX = 'leader-election:';
+
+/**
+ * Options for creating a leader election
+ */
+export type LeaderElectionOptions = {
+  /**
+   * Name of the election; tabs only compete with elections of the same name (defaults to `default`)
+   */
+  name?: string;
+
+  /**
+   * Broadcast service carrying heartbeats (defaults to the singleton)
+   */
+  broadcastService?: BroadcastService<any>;
+
+  /**
+   * Milliseconds between leader heartbeats (defaults to 1000)
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * Milliseconds without a heartbeat after which the leader is considered gone (defaults to 3000)
+   */
+  leaderTimeout?: number;
+
+  /**
+   * Use the Web Locks API where available instead of heartbeats (defaults to true)
+   */
+  useWebLocks?: boolean;
+};
+
+/**
+ * Message sent on an election channel
+ * `heartbeat` is sent by the leader, `resign` when it stops
+ */
+type LeaderElectionMessage = { kind: 'heartbeat' | 'resign'; candidateId: string };
+
+/**
+ * Elects exactly one leader among all tabs running an election of the same name
+ * With the Web Locks API, the leader holds an exclusive lock that is handed to the next tab
+ * when it closes. Otherwise the leader sends heartbeats and the other tabs take over once
+ * they stop. Tabs that claim leadership at the same time are resolved deterministically:
+ * the candidate with the lowest ID keeps it. A page entering the back/forward cache leaves
+ * the election and rejoins when it is shown again.
+ * @example
+ * ```ts
+ * const election = new LeaderElection({ name: 'polling' });
+ *
+ * election.onLeadershipChange((isLeader) => {
+ *   if (isLeader) startPolling();
+ *   else stopPolling();
+ * });
+ * election.start();
+ * ```
+ */
+export class LeaderElection {
+  private options: Required<Omit<LeaderElectionOptions, 'broadcastService'>>;
+  private broadcastService: BroadcastService<any>;
+  private channelName: string;
+  private leader = false;
+  private running = false;
+  private listeners = new Set<(isLeader: boolean) => void>();
+
+  // Heartbeat mode
+  private listenerId: string | undefined;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private leaderId: string | undefined;
+  private lastHeartbeat = 0;
+
+  // Web Locks mode
+  private lockAbortController: AbortController | undefined;
+  private releaseLock: (() => void) | undefined;
+
+  /**
+   * ID of this candidate, unique per election instance
+   */
+  readonly candidateId = createId();
+
+  /**
+   * Create a leader election. Call `start()` to take part
+   * @param options - Optional election name, broadcast service, timings and Web Locks usage
+   */
+  constructor(options: LeaderElectionOptions = {}) {
+    this.broadcastService = options.broadcastService ?? defaultBroadcastService;
+    this.options = {
+      name: options.name ?? 'default',
+      heartbeatInterval: options.heartbeatInterval ?? 1000,
+      leaderTimeout: options.leaderTimeout ?? 3000,
+      useWebLocks: options.useWebLocks ?? true,
+    };
+    this.channelName = `${LEADER_ELECTION_CHANNEL_PREFIX}${this.options.name}`;
+  }
+
+  /**
+   * Start taking part in the election. Calling it again has no effect
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    const locks = this.getLockManager();
+    if (locks) {
+      this.startWithLock(locks);
+    } else {
+      this.startWithHeartbeats();
+    }
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  /**
+   * Stop taking part in the election, handing leadership to another tab
+   */
+  stop(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+      // Also cancels a restart when the page is shown again
+      window.removeEventListener('pageshow', this.handlePageShow);
+    }
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+
+    this.lockAbortController?.abort();
+    this.lockAbortController = undefined;
+    this.releaseLock?.();
+    this.releaseLock = undefined;
+
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (this.listenerId !== undefined) {
+      if (this.leader) {
+        this.send('resign');
+      }
+      this.broadcastService.unsubscribe(this.channelName, this.listenerId);
+      this.listenerId = undefined;
+    }
+    this.leaderId = undefined;
+
+    this.setLeader(false);
+  }
+
+  /**
+   * Check whether this tab is currently the leader
+   */
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Subscribe to leadership changes of this tab
+   * @param listener - Called with `true` when this tab becomes the leader and `false` when it stops
+   * @returns Subscription that removes the listener
+   */
+  onLeadershipChange(listener: (isLeader: boolean) => void): Subscription {
+    this.listeners.add(listener);
+    return createSubscription(() => {
+      this.listeners.delete(listener);
+    });
+  }
+
+  private handlePageHide = (event: PageTransitionEvent) => {
+    this.stop();
+    // A page kept in the back/forward cache takes part again once it is shown
+    if (event.persisted) {
+      window.addEventListener('pageshow', this.handlePageShow, { once: true });
+    }
+  };
+
+  private handlePageShow = () => {
+    this.start();
+  };
+
+  private getLockManager(): LockManager | undefined {
+    if (!this.options.useWebLocks || typeof navigator === 'undefined') {
+      return undefined;
+    }
+    // Not available in insecure contexts
+    return navigator.locks ?? undefined;
+  }
+
+  /**
+   * Wait for the election's lock and hold it while leading
+   */
+  private startWithLock(locks: LockManager): void {
+    const controller = new AbortController();
+    this.lockAbortController = controller;
+
+    locks
+      .request(this.channelName, { signal: controller.signal }, () => {
+        this.lockAbortController = undefined;
+        this.setLeader(true);
+
+        // Held until `stop` resolves it, or released by the browser when the tab closes
+        return new Promise<void>((resolve) => {
+          this.releaseLock = resolve;
+        });
+      })
+      .catch(() => {
+        // Aborted by `stop` before the lock was granted
+      });
+  }
+
+  /**
+   * Follow the leader's heartbeats and take over once they stop
+   */
+  private startWithHeartbeats(): void {
+    // `includeSelf` also reaches elections sharing this broadcast service
+    this.listenerId = this.broadcastService.subscribe(
+      this.channelName,
+      (message: LeaderElectionMessage) => this.handleMessage(message),
+      { includeSelf: true }
+    );
+
+    // Give a current leader one timeout to announce itself
+    this.lastHeartbeat = Date.now();
+    this.timer = setInterval(() => this.tick(), this.options.heartbeatInterval);
+  }
+
+  private handleMessage(message: LeaderElectionMessage): void {
+    if (!message || message.candidateId === this.candidateId) {
+      return;
+    }
+
+    if (message.kind === 'resign') {
+      // Channels deliver the messages of a tab in order, so no heartbeat of the leader follows
+      if (message.candidateId === this.leaderId) {
+        this.leaderId = undefined;
+        this.lastHeartbeat = 0;
+        this.tick();
+      }
+      return;
+    }
+
+    if (this.leader) {
+      if (message.candidateId < this.candidateId) {
+        // Another leader with a lower ID keeps leadership
+        this.leaderId = message.candidateId;
+        this.lastHeartbeat = Date.now();
+        this.setLeader(false);
+      } else {
+        // Make the other leader step down right away
+        this.send('heartbeat');
+      }
+      return;
+    }
+
+    const leaderExpired = Date.now() - this.lastHeartbeat > this.options.leaderTimeout;
+    if (this.leaderId === undefined || leaderExpired || message.candidateId <= this.leaderId) {
+      this.leaderId = message.candidateId;
+      this.lastHeartbeat = Date.now();
+    }
+  }
+
+  private tick(): void {
+    if (this.leader) {
+      this.send('heartbeat');
+    } else if (Date.now() - this.lastHeartbeat > this.options.leaderTimeout) {
+      this.leaderId = undefined;
+      this.setLeader(true);
+      this.send('heartbeat');
+    }
+  }
+
+  private send(kind: LeaderElectionMessage['kind']): void {
+    const message: LeaderElectionMessage = { kind, candidateId: this.candidateId };
+    this.broadcastService.broadcast(this.channelName, message);
+  }
+
+  private setLeader(leader: boolean): void {
+    if (this.leader === leader) {
+      return;
+    }
+    this.leader = leader;
+    this.listeners.forEach((listener) => listener(leader));
+  }
+}
+
+/**
+ * Singleton instance of LeaderElection, started on first use of `useIsLeader`
+ */
+export const leaderElection = new LeaderElection();
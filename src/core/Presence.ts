@@ -0,0 +1,304 @@
+import type { BroadcastMessageMeta, Subscription } from '../types/events';
+import { BroadcastService, broadcastService as defaultBroadcastService } from './BroadcastService';
+import { EventService } from './EventService';
+
+/**
+ * Prefix of the broadcast channel used for each presence registry
+ */
+export const PRESENCE_CHANNEL_PREFIX = 'presence:';
+
+/**
+ * Custom metadata a tab announces about itself, such as its route, user or visibility
+ */
+export type PeerMetadata = Record<string, unknown>;
+
+/**
+ * Another open tab of the app
+ */
+export type Peer<TMetadata extends PeerMetadata = PeerMetadata> = {
+  /**
+   * The peer's tab ID
+   */
+  id: string;
+
+  /**
+   * Metadata last announced by the peer
+   */
+  metadata: TMetadata;
+
+  /**
+   * Time the peer was last heard from, in milliseconds since the epoch
+   */
+  lastSeen: number;
+};
+
+/**
+ * Options for creating a presence registry
+ */
+export type PresenceOptions<TMetadata extends PeerMetadata = PeerMetadata> = {
+  /**
+   * Name of the registry; tabs only see peers using the same name (defaults to `default`)
+   */
+  name?: string;
+
+  /**
+   * Metadata announced by this tab (defaults to `{}`)
+   */
+  metadata?: TMetadata;
+
+  /**
+   * Broadcast service carrying announcements (defaults to the singleton)
+   */
+  broadcastService?: BroadcastService<any>;
+
+  /**
+   * Milliseconds between announcements (defaults to 5000)
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * Milliseconds without an announcement after which a peer is considered gone (defaults to 15000)
+   */
+  peerTimeout?: number;
+};
+
+/**
+ * Message sent on a presence channel
+ * `ping` asks every peer to announce itself, `leave` is sent when a tab stops or closes
+ */
+type PresenceMessage<TMetadata> =
+  | { kind: 'announce'; metadata: TMetadata }
+  | { kind: 'ping' }
+  | { kind: 'leave' };
+
+/**
+ * Events of a presence registry
+ */
+type PresenceEvents<TMetadata extends PeerMetadata> = {
+  join: Peer<TMetadata>;
+  leave: Peer<TMetadata>;
+  update: Peer<TMetadata>;
+};
+
+/**
+ * Registry of the other open tabs of the app
+ * Each tab announces itself with its tab ID and custom metadata, answers pings from newly
+ * opened tabs, repeats its announcement as a heartbeat and announces its departure on `pagehide`.
+ * A page restored from the back/forward cache announces itself again.
+ * Peers that stop announcing without leaving (e.g. crashed tabs) are dropped after `peerTimeout`.
+ * @example
+ * ```ts
+ * const presence = new Presence({ metadata: { route: location.pathname } });
+ *
+ * presence.onPeerJoin((peer) => console.log(`Tab ${peer.id} opened ${peer.metadata.route}`));
+ * presence.start();
+ *
+ * presence.setMetadata({ route: '/checkout' });
+ * presence.getPeers(); // [{ id, metadata, lastSeen }, ...]
+ * ```
+ */
+export class Presence<TMetadata extends PeerMetadata = PeerMetadata> {
+  private options: Required<Omit<PresenceOptions<TMetadata>, 'broadcastService' | 'metadata'>>;
+  private broadcastService: BroadcastService<any>;
+  private channelName: string;
+  private metadata: TMetadata;
+  private peers = new Map<string, Peer<TMetadata>>();
+  private events = new EventService<PresenceEvents<TMetadata>>();
+  private listenerId: string | undefined;
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * Create a presence registry. Call `start()` to announce this tab and discover peers
+   * @param options - Optional registry name, metadata, broadcast service and timings
+   */
+  constructor(options: PresenceOptions<TMetadata> = {}) {
+    this.broadcastService = options.broadcastService ?? defaultBroadcastService;
+    this.metadata = options.metadata ?? ({} as TMetadata);
+    this.options = {
+      name: options.name ?? 'default',
+      heartbeatInterval: options.heartbeatInterval ?? 5000,
+      peerTimeout: options.peerTimeout ?? 15000,
+    };
+    this.channelName = `${PRESENCE_CHANNEL_PREFIX}${this.options.name}`;
+  }
+
+  /**
+   * ID this tab announces itself with
+   */
+  get id(): string {
+    return this.broadcastService.tabId;
+  }
+
+  /**
+   * Announce this tab and ask existing tabs to announce themselves. Calling it again has no effect
+   */
+  start(): void {
+    if (this.listenerId !== undefined) {
+      return;
+    }
+
+    this.listenerId = this.broadcastService.subscribe(
+      this.channelName,
+      (message: PresenceMessage<TMetadata>, meta) => this.handleMessage(message, meta),
+      { excludeSelf: true }
+    );
+
+    this.announce();
+    this.send({ kind: 'ping' });
+    this.timer = setInterval(() => {
+      this.announce();
+      this.removeStalePeers();
+    }, this.options.heartbeatInterval);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  /**
+   * Announce the departure of this tab and forget all peers
+   */
+  stop(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+      // Also cancels a restart when the page is shown again
+      window.removeEventListener('pageshow', this.handlePageShow);
+    }
+    if (this.listenerId === undefined) {
+      return;
+    }
+
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.send({ kind: 'leave' });
+    this.broadcastService.unsubscribe(this.channelName, this.listenerId);
+    this.listenerId = undefined;
+
+    Array.from(this.peers.keys()).forEach((peerId) => this.removePeer(peerId));
+  }
+
+  /**
+   * Get the other open tabs, in the order they were discovered
+   */
+  getPeers(): Peer<TMetadata>[] {
+    return Array.from(this.peers.values());
+  }
+
+  /**
+   * Get the metadata this tab announces
+   */
+  getMetadata(): TMetadata {
+    return this.metadata;
+  }
+
+  /**
+   * Replace the metadata of this tab and announce it to all peers
+   * @param metadata - The new metadata, or a function deriving it from the current metadata
+   */
+  setMetadata(metadata: TMetadata | ((current: TMetadata) => TMetadata)): void {
+    this.metadata = typeof metadata === 'function' ? metadata(this.metadata) : metadata;
+    if (this.listenerId !== undefined) {
+      this.announce();
+    }
+  }
+
+  /**
+   * Subscribe to peers opening
+   * @returns Subscription that removes the listener
+   */
+  onPeerJoin(listener: (peer: Peer<TMetadata>) => void): Subscription {
+    return this.events.on('join', ({ data }) => listener(data));
+  }
+
+  /**
+   * Subscribe to peers leaving or timing out
+   * @returns Subscription that removes the listener
+   */
+  onPeerLeave(listener: (peer: Peer<TMetadata>) => void): Subscription {
+    return this.events.on('leave', ({ data }) => listener(data));
+  }
+
+  /**
+   * Subscribe to peers announcing new metadata
+   * @returns Subscription that removes the listener
+   */
+  onPeerUpdate(listener: (peer: Peer<TMetadata>) => void): Subscription {
+    return this.events.on('update', ({ data }) => listener(data));
+  }
+
+  private handlePageHide = (event: PageTransitionEvent) => {
+    this.stop();
+    // A page kept in the back/forward cache takes part again once it is shown
+    if (event.persisted) {
+      window.addEventListener('pageshow', this.handlePageShow, { once: true });
+    }
+  };
+
+  private handlePageShow = () => {
+    this.start();
+  };
+
+  private handleMessage(
+    message: PresenceMessage<TMetadata>,
+    meta: BroadcastMessageMeta | undefined
+  ): void {
+    if (!meta) {
+      return;
+    }
+
+    const peerId = meta.senderId;
+    switch (message?.kind) {
+      case 'announce':
+        this.updatePeer(peerId, message.metadata);
+        break;
+      case 'ping':
+        this.announce();
+        break;
+      case 'leave':
+        this.removePeer(peerId);
+        break;
+    }
+  }
+
+  private updatePeer(peerId: string, metadata: TMetadata): void {
+    const existing = this.peers.get(peerId);
+    const peer: Peer<TMetadata> = { id: peerId, metadata, lastSeen: Date.now() };
+    this.peers.set(peerId, peer);
+
+    if (!existing) {
+      this.events.emit('join', peer);
+    } else if (JSON.stringify(existing.metadata) !== JSON.stringify(metadata)) {
+      this.events.emit('update', peer);
+    }
+  }
+
+  private removePeer(peerId: string): void {
+    const peer = this.peers.get(peerId);
+    if (peer) {
+      this.peers.delete(peerId);
+      this.events.emit('leave', peer);
+    }
+  }
+
+  private removeStalePeers(): void {
+    const now = Date.now();
+    this.peers.forEach((peer) => {
+      if (now - peer.lastSeen > this.options.peerTimeout) {
+        this.removePeer(peer.id);
+      }
+    });
+  }
+
+  private announce(): void {
+    this.send({ kind: 'announce', metadata: this.metadata });
+  }
+
+  private send(message: PresenceMessage<TMetadata>): void {
+    this.broadcastService.broadcast(this.channelName, message);
+  }
+}
+
+/**
+ * Singleton instance of Presence, started on first use of `usePeers`
+ */
+export const presence = new Presence();
@@ -0,0 +1,7 @@
+/**
+ * Check whether code runs on a server, e.g. while rendering a page in Node
+ * True when there is neither a DOM `window` nor a worker global scope (`self`)
+ */
+export function isServer(): boolean {
+  return typeof window === 'undefined' && typeof self === 'undefined';
+}
@@ -0,0 +1,29 @@
+/**
+ * Error thrown when an operation does not complete within its timeout
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Error thrown by a request when the responding tab's handler failed
+ * Carries the name, message and stack of the original error
+ */
+export class RpcError extends Error {
+  /**
+   * Name of the error thrown by the handler
+   */
+  readonly remoteName: string;
+
+  constructor(message: string, remoteName: string, remoteStack?: string) {
+    super(message);
+    this.name = 'RpcError';
+    this.remoteName = remoteName;
+    if (remoteStack) {
+      this.stack = remoteStack;
+    }
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Create a random ID
+ * Uses `crypto.randomUUID` where available
+ */
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+}
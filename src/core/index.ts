@@ -3,4 +3,26 @@
  */
 
 export { EventService, eventService } from './EventService';
-export { BroadcastService, broadcastService } from './BroadcastService';
+export { BroadcastService, broadcastService, RPC_CHANNEL_PREFIX } from './BroadcastService';
+export { TimeoutError, RpcError } from './errors';
+export { createEventBridge, DEFAULT_BRIDGE_CHANNEL } from './EventBridge';
+export type { EventBridgeOptions } from './EventBridge';
+export { LeaderElection, leaderElection, LEADER_ELECTION_CHANNEL_PREFIX } from './LeaderElection';
+export type { LeaderElectionOptions } from './LeaderElection';
+export { Presence, presence, PRESENCE_CHANNEL_PREFIX } from './Presence';
+export type { Peer, PeerMetadata, PresenceOptions } from './Presence';
+export {
+  BroadcastChannelTransport,
+  InMemoryTransport,
+  LocalStorageTransport,
+  MessagePortTransport,
+  NodeBroadcastChannelTransport,
+  NoopTransport,
+} from './transports';
+export type {
+  LocalStorageTransportOptions,
+  MessageEndpoint,
+  MessagePortTransportOptions,
+  NodeBroadcastChannelConstructor,
+} from './transports';
+export { isServer } from './environment';
@@ -0,0 +1,62 @@
+/**
+ * Separator between the segments of an event name (`domain:action`)
+ */
+const SEGMENT_SEPARATOR = ':';
+
+/**
+ * Check whether an event name is a wildcard pattern
+ * A pattern has at least one `*` (exactly one segment) or `**` (any number of segments) segment
+ * @param eventType - The event name or pattern to check
+ */
+export function isEventPattern(eventType: string): boolean {
+  return eventType
+    .split(SEGMENT_SEPARATOR)
+    .some((segment) => segment === '*' || segment === '**');
+}
+
+/**
+ * Check whether a concrete event name matches a wildcard pattern
+ * @param pattern - Pattern such as `user:*`, `*:error` or `**`
+ * @param eventType - Concrete event name such as `user:updated`
+ * @example
+ * ```ts
+ * matchEventPattern('user:*', 'user:updated'); // true
+ * matchEventPattern('user:*', 'user:profile:updated'); // false
+ * matchEventPattern('user:**', 'user:profile:updated'); // true
+ * ```
+ */
+export function matchEventPattern(pattern: string, eventType: string): boolean {
+  return matchSegments(pattern.split(SEGMENT_SEPARATOR), 0, eventType.split(SEGMENT_SEPARATOR), 0);
+}
+
+function matchSegments(
+  pattern: string[],
+  patternIndex: number,
+  segments: string[],
+  segmentIndex: number
+): boolean {
+  if (patternIndex === pattern.length) {
+    return segmentIndex === segments.length;
+  }
+
+  const current = pattern[patternIndex];
+
+  if (current === '**') {
+    for (let index = segmentIndex; index <= segments.length; index++) {
+      if (matchSegments(pattern, patternIndex + 1, segments, index)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  if (segmentIndex === segments.length) {
+    return false;
+  }
+
+  if (current !== '*' && current !== segments[segmentIndex]) {
+    return false;
+  }
+
+  return matchSegments(pattern, patternIndex + 1, segments, segmentIndex + 1);
+}
@@ -0,0 +1,51 @@
+import type { EventPayload } from '../types/events';
+
+/**
+ * Emits an event received from another tab on one event service
+ */
+type Relay = (eventType: string, data: unknown) => void;
+
+/**
+ * Relay of each event service, registered by the service itself so the relayed state
+ * can be passed to its listeners without being part of its public API
+ */
+const relays = new WeakMap<object, Relay>();
+
+/**
+ * Listener payloads of events that an event bridge received from another tab
+ * Kept outside the payloads, so middleware that replaces a payload cannot drop the mark
+ */
+const relayedPayloads = new WeakSet<EventPayload<unknown>>();
+
+/**
+ * Register how an event service emits events received from another tab
+ * @param eventService - The service the relay belongs to
+ * @param relay - Emits an event and marks the payload its listeners receive
+ */
+export function registerRelay(eventService: object, relay: Relay): void {
+  relays.set(eventService, relay);
+}
+
+/**
+ * Emit an event received from another tab, marked so bridges do not broadcast it back
+ * @param eventService - The service to emit on
+ * @param eventType - The type of event to emit
+ * @param data - The data received with the event
+ */
+export function emitRelayed(eventService: object, eventType: string, data: unknown): void {
+  relays.get(eventService)?.(eventType, data);
+}
+
+/**
+ * Mark the payload listeners receive for an event from another tab
+ */
+export function markRelayed(payload: EventPayload<unknown>): void {
+  relayedPayloads.add(payload);
+}
+
+/**
+ * Check whether an event was received from another tab
+ */
+export function isRelayed(payload: EventPayload<unknown>): boolean {
+  return relayedPayloads.has(payload);
+}
@@ -0,0 +1,31 @@
+import type { Subscription } from '../types/events';
+
+/**
+ * `Symbol.dispose` where the runtime provides it, otherwise the well-known
+ * registry symbol used by TypeScript's `using` downlevel helpers
+ */
+const disposeSymbol: typeof Symbol.dispose =
+  typeof Symbol.dispose === 'symbol'
+    ? Symbol.dispose
+    : (Symbol.for('Symbol.dispose') as typeof Symbol.dispose);
+
+/**
+ * Create a subscription handle that runs the teardown at most once
+ * @param teardown - Function that removes the underlying listener
+ * @returns Subscription with `unsubscribe()` and `Symbol.dispose` support
+ */
+export function createSubscription(teardown: () => void): Subscription {
+  let active = true;
+
+  const unsubscribe = () => {
+    if (active) {
+      active = false;
+      teardown();
+    }
+  };
+
+  return {
+    unsubscribe,
+    [disposeSymbol]: unsubscribe,
+  };
+}
@@ -0,0 +1,29 @@
+import type { Transport, TransportChannel } from '../../types/events';
+
+/**
+ * Transport using the BroadcastChannel API
+ * Reaches every window, tab, iframe and worker of the same origin
+ */
+export class BroadcastChannelTransport implements Transport {
+  /**
+   * Open a BroadcastChannel with the given name
+   * @param channelName - The name of the channel
+   */
+  open(channelName: string): TransportChannel {
+    const channel = new BroadcastChannel(channelName);
+
+    return {
+      post: (message) => {
+        channel.postMessage(message);
+      },
+      onMessage: (listener) => {
+        const handler = (event: MessageEvent) => listener(event.data);
+        channel.addEventListener('message', handler);
+        return () => channel.removeEventListener('message', handler);
+      },
+      close: () => {
+        channel.close();
+      },
+    };
+  }
+}
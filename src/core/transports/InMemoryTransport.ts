@@ -0,0 +1,62 @@
+import type { Transport, TransportChannel } from '../../types/events';
+
+/**
+ * Transport delivering messages between connections opened on the same instance
+ * Useful in tests: give several broadcast services one transport (and different `tabId`s)
+ * to simulate several tabs. Messages are copied with `structuredClone` and delivered
+ * asynchronously, in a microtask.
+ * @example
+ * ```ts
+ * const transport = new InMemoryTransport();
+ * const tabA = new BroadcastService({ transport, tabId: 'a' });
+ * const tabB = new BroadcastService({ transport, tabId: 'b' });
+ *
+ * tabB.subscribe('ping', (data) => console.log(data));
+ * tabA.broadcast('ping', 'hello'); // Logged by tab B
+ * ```
+ */
+export class InMemoryTransport implements Transport {
+  private listeners = new Map<string, Set<Set<(message: unknown) => void>>>();
+
+  /**
+   * Open an in-memory connection to a channel
+   * @param channelName - The name of the channel
+   */
+  open(channelName: string): TransportChannel {
+    if (!this.listeners.has(channelName)) {
+      this.listeners.set(channelName, new Set());
+    }
+    const connections = this.listeners.get(channelName)!;
+    const own = new Set<(message: unknown) => void>();
+    connections.add(own);
+
+    return {
+      post: (message) => {
+        // Copy like a real channel would, so messages that cannot be cloned fail here too
+        const copy = typeof structuredClone === 'function' ? structuredClone(message) : message;
+
+        connections.forEach((connection) => {
+          if (connection === own) {
+            return;
+          }
+          connection.forEach((listener) => {
+            queueMicrotask(() => {
+              // Skip listeners removed before delivery
+              if (connection.has(listener)) {
+                listener(copy);
+              }
+            });
+          });
+        });
+      },
+      onMessage: (listener) => {
+        own.add(listener);
+        return () => own.delete(listener);
+      },
+      close: () => {
+        own.clear();
+        connections.delete(own);
+      },
+    };
+  }
+}
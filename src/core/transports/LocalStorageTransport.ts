@@ -0,0 +1,191 @@
+import type { Transport, TransportChannel } from '../../types/events';
+import { createId } from '../id';
+
+/**
+ * Options for creating a localStorage transport
+ */
+export type LocalStorageTransportOptions = {
+  /**
+   * Prefix of the storage keys messages are written to (defaults to `broadcast-event-system:`)
+   */
+  keyPrefix?: string;
+
+  /**
+   * Milliseconds after which a message left in storage is removed (defaults to 5000)
+   */
+  staleTimeout?: number;
+};
+
+/**
+ * Message as written to storage
+ */
+type StoredMessage = {
+  id: string;
+  timestamp: number;
+  message: unknown;
+};
+
+/**
+ * Number of message IDs remembered to drop duplicate storage events
+ */
+const SEEN_MESSAGE_LIMIT = 100;
+
+/**
+ * Connections opened in this tab, per storage key prefix and channel
+ * Storage events only reach other tabs, so these are delivered to directly
+ */
+const localConnections = new Map<string, Set<Set<(message: unknown) => void>>>();
+
+/**
+ * Remember a message ID, forgetting the oldest once over the limit
+ * @returns Whether the ID was new
+ */
+function markSeen(seenMessageIds: Set<string>, id: string): boolean {
+  if (seenMessageIds.has(id)) {
+    return false;
+  }
+  seenMessageIds.add(id);
+  if (seenMessageIds.size > SEEN_MESSAGE_LIMIT) {
+    // Sets iterate in insertion order
+    seenMessageIds.delete(seenMessageIds.values().next().value!);
+  }
+  return true;
+}
+
+function parseStoredMessage(value: string | null): StoredMessage | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  try {
+    const stored = JSON.parse(value);
+    return typeof stored?.id === 'string' ? stored : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Transport using `storage` events of `localStorage`, for browsers without BroadcastChannel
+ * Each message is written to a unique key and removed right away; other tabs receive it
+ * through the `storage` event of the write. Messages are serialized as JSON, so only
+ * JSON-compatible data arrives intact.
+ * `BroadcastService` selects this transport automatically when BroadcastChannel is undefined.
+ * @example
+ * ```ts
+ * const service = new BroadcastService({ transport: new LocalStorageTransport() });
+ * ```
+ */
+export class LocalStorageTransport implements Transport {
+  private keyPrefix: string;
+  private staleTimeout: number;
+
+  /**
+   * Create a localStorage transport
+   * @param options - Optional storage key prefix and stale entry timeout
+   */
+  constructor(options: LocalStorageTransportOptions = {}) {
+    this.keyPrefix = options.keyPrefix ?? 'broadcast-event-system:';
+    this.staleTimeout = options.staleTimeout ?? 5000;
+  }
+
+  /**
+   * Open a connection to a channel, listening for `storage` events of its keys
+   * @param channelName - The name of the channel
+   */
+  open(channelName: string): TransportChannel {
+    const channelPrefix = `${this.keyPrefix}${channelName}:`;
+    if (!localConnections.has(channelPrefix)) {
+      localConnections.set(channelPrefix, new Set());
+    }
+    const connections = localConnections.get(channelPrefix)!;
+    const own = new Set<(message: unknown) => void>();
+    connections.add(own);
+    // Some browsers fire duplicate storage events
+    const seenMessageIds = new Set<string>();
+
+    const handleStorage = (event: StorageEvent) => {
+      // Also skips the events of removing messages
+      if (event.storageArea !== localStorage || !event.key?.startsWith(channelPrefix)) {
+        return;
+      }
+
+      const stored = parseStoredMessage(event.newValue);
+      // Compare the whole key, as channel names may contain other channel names as prefixes
+      if (
+        stored &&
+        event.key === `${channelPrefix}${stored.id}` &&
+        markSeen(seenMessageIds, stored.id)
+      ) {
+        own.forEach((listener) => listener(stored.message));
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    this.removeStaleMessages();
+
+    return {
+      post: (message) => {
+        const stored: StoredMessage = { id: createId(), timestamp: Date.now(), message };
+        const value = JSON.stringify(stored);
+        const key = `${channelPrefix}${stored.id}`;
+
+        try {
+          localStorage.setItem(key, value);
+        } catch {
+          // Storage may be full of messages left behind by closed tabs
+          this.removeStaleMessages();
+          localStorage.setItem(key, value);
+        }
+        localStorage.removeItem(key);
+
+        // Deliver to the other connections in this tab, like BroadcastChannel
+        const copy = JSON.parse(value).message;
+        connections.forEach((connection) => {
+          if (connection === own) {
+            return;
+          }
+          connection.forEach((listener) => {
+            setTimeout(() => {
+              // Skip listeners removed before delivery
+              if (connection.has(listener)) {
+                listener(copy);
+              }
+            }, 0);
+          });
+        });
+      },
+      onMessage: (listener) => {
+        own.add(listener);
+        return () => own.delete(listener);
+      },
+      close: () => {
+        window.removeEventListener('storage', handleStorage);
+        own.clear();
+        connections.delete(own);
+        if (connections.size === 0) {
+          localConnections.delete(channelPrefix);
+        }
+      },
+    };
+  }
+
+  /**
+   * Remove messages older than `staleTimeout`, left behind by tabs that closed mid-write
+   */
+  private removeStaleMessages(): void {
+    const now = Date.now();
+    const staleKeys: string[] = [];
+
+    for (let index = 0; index < localStorage.length; index++) {
+      const key = localStorage.key(index);
+      if (!key?.startsWith(this.keyPrefix)) {
+        continue;
+      }
+      const stored = parseStoredMessage(localStorage.getItem(key));
+      if (!stored || now - stored.timestamp > this.staleTimeout) {
+        staleKeys.push(key);
+      }
+    }
+
+    staleKeys.forEach((key) => localStorage.removeItem(key));
+  }
+}
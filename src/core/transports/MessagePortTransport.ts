@@ -0,0 +1,235 @@
+import type { Transport, TransportChannel } from '../../types/events';
+
+/**
+ * Anything messages can be posted to and received from: a `Worker`, a `MessagePort`,
+ * or the global scope inside a dedicated worker (`self`)
+ */
+export type MessageEndpoint = {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  start?(): void;
+};
+
+/**
+ * Options for creating a message port transport
+ */
+export type MessagePortTransportOptions = {
+  /**
+   * Forward messages received from one endpoint to the other endpoints, making this side
+   * a hub, e.g. in a SharedWorker (defaults to false)
+   */
+  relay?: boolean;
+
+  /**
+   * Transport to bridge the endpoints to, e.g. a `BroadcastChannelTransport` on the main thread
+   * so a worker reaches other tabs. Messages are forwarded in both directions.
+   */
+  transport?: Transport;
+};
+
+/**
+ * Message posted to an endpoint
+ * `open` tells the other side which channels to bridge, `message` carries a message
+ */
+type PortMessage = { __messagePortTransport: true; channelName: string } & (
+  { kind: 'open' } | { kind: 'message'; message: unknown }
+);
+
+type Listener = (message: unknown) => void;
+
+function isPortMessage(data: unknown): data is PortMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as PortMessage).__messagePortTransport === true
+  );
+}
+
+/**
+ * Transport carrying every channel over `postMessage` of one or more endpoints
+ * Use it on both sides of a connection, e.g. around a `Worker` on the main thread and around
+ * `self` inside the worker. Channels are multiplexed over each endpoint.
+ * @example
+ * ```ts
+ * // main.ts: reach the worker, and bridge it to other tabs
+ * const worker = new Worker(new URL('./worker.ts', import.meta.url));
+ * const service = new BroadcastService({
+ *   transport: new MessagePortTransport(worker, { transport: new BroadcastChannelTransport() }),
+ * });
+ *
+ * // worker.ts
+ * const service = new BroadcastService({ transport: new MessagePortTransport(self) });
+ * service.broadcast('progress', 0.5);
+ * ```
+ */
+export class MessagePortTransport implements Transport {
+  private endpoints = new Map<MessageEndpoint, (event: MessageEvent) => void>();
+  private connections = new Map<string, Set<Set<Listener>>>();
+  private bridgedChannels = new Map<string, TransportChannel>();
+  private relay: boolean;
+  private transport: Transport | undefined;
+
+  /**
+   * Create a transport over the given endpoints
+   * @param endpoints - Endpoints to connect right away; a SharedWorker is connected through its port
+   * @param options - Optional relaying between endpoints and a transport to bridge them to
+   */
+  constructor(
+    endpoints: MessageEndpoint | SharedWorker | (MessageEndpoint | SharedWorker)[] = [],
+    options: MessagePortTransportOptions = {}
+  ) {
+    this.relay = options.relay ?? false;
+    this.transport = options.transport;
+    (Array.isArray(endpoints) ? endpoints : [endpoints]).forEach((endpoint) =>
+      this.connect(endpoint)
+    );
+  }
+
+  /**
+   * Connect another endpoint, e.g. each port connecting to a SharedWorker
+   * @param endpoint - The endpoint; a SharedWorker is connected through its port
+   * @returns Function that disconnects the endpoint without closing it
+   * @example
+   * ```ts
+   * // shared-worker.ts
+   * const transport = new MessagePortTransport([], { relay: true });
+   * self.addEventListener('connect', (event) => transport.connect(event.ports[0]));
+   * ```
+   */
+  connect(endpoint: MessageEndpoint | SharedWorker): () => void {
+    const port: MessageEndpoint = 'port' in endpoint ? endpoint.port : endpoint;
+    const disconnect = () => {
+      const handler = this.endpoints.get(port);
+      if (handler) {
+        port.removeEventListener('message', handler);
+        this.endpoints.delete(port);
+      }
+    };
+
+    if (this.endpoints.has(port)) {
+      return disconnect;
+    }
+
+    const handler = (event: MessageEvent) => this.receive(port, event.data);
+    port.addEventListener('message', handler);
+    // Ports only dispatch messages to `addEventListener` listeners once started
+    port.start?.();
+    this.endpoints.set(port, handler);
+
+    this.connections.forEach((_, channelName) => {
+      port.postMessage(this.createMessage(channelName, { kind: 'open' }));
+    });
+
+    return disconnect;
+  }
+
+  /**
+   * Open a channel on every endpoint
+   * @param channelName - The name of the channel
+   */
+  open(channelName: string): TransportChannel {
+    if (!this.connections.has(channelName)) {
+      this.connections.set(channelName, new Set());
+      this.postToEndpoints(this.createMessage(channelName, { kind: 'open' }));
+    }
+    const connections = this.connections.get(channelName)!;
+    const own = new Set<Listener>();
+    connections.add(own);
+    const bridged = this.openBridgedChannel(channelName);
+
+    return {
+      post: (message) => {
+        this.postToEndpoints(this.createMessage(channelName, { kind: 'message', message }));
+        bridged?.post(message);
+
+        // Deliver to the other connections on this side, like BroadcastChannel
+        const copy = typeof structuredClone === 'function' ? structuredClone(message) : message;
+        connections.forEach((connection) => {
+          if (connection === own) {
+            return;
+          }
+          connection.forEach((listener) => {
+            queueMicrotask(() => {
+              // Skip listeners removed before delivery
+              if (connection.has(listener)) {
+                listener(copy);
+              }
+            });
+          });
+        });
+      },
+      onMessage: (listener) => {
+        own.add(listener);
+        return () => own.delete(listener);
+      },
+      close: () => {
+        own.clear();
+        connections.delete(own);
+        if (connections.size === 0) {
+          this.connections.delete(channelName);
+        }
+      },
+    };
+  }
+
+  private receive(source: MessageEndpoint, data: unknown): void {
+    if (!isPortMessage(data)) {
+      return;
+    }
+
+    if (this.relay) {
+      this.postToEndpoints(data, source);
+    }
+
+    const bridged = this.openBridgedChannel(data.channelName);
+    if (data.kind === 'open') {
+      return;
+    }
+
+    bridged?.post(data.message);
+    this.deliver(data.channelName, data.message);
+  }
+
+  /**
+   * Open a channel of the bridged transport, forwarding its messages to this side and the endpoints
+   * Bridged channels stay open as long as the transport is used
+   */
+  private openBridgedChannel(channelName: string): TransportChannel | undefined {
+    if (!this.transport) {
+      return undefined;
+    }
+
+    let bridged = this.bridgedChannels.get(channelName);
+    if (!bridged) {
+      bridged = this.transport.open(channelName);
+      bridged.onMessage((message) => {
+        this.postToEndpoints(this.createMessage(channelName, { kind: 'message', message }));
+        this.deliver(channelName, message);
+      });
+      this.bridgedChannels.set(channelName, bridged);
+    }
+    return bridged;
+  }
+
+  private deliver(channelName: string, message: unknown): void {
+    this.connections.get(channelName)?.forEach((connection) => {
+      connection.forEach((listener) => listener(message));
+    });
+  }
+
+  private postToEndpoints(message: PortMessage, except?: MessageEndpoint): void {
+    this.endpoints.forEach((_, endpoint) => {
+      if (endpoint !== except) {
+        endpoint.postMessage(message);
+      }
+    });
+  }
+
+  private createMessage(
+    channelName: string,
+    body: { kind: 'open' } | { kind: 'message'; message: unknown }
+  ): PortMessage {
+    return { __messagePortTransport: true, channelName, ...body };
+  }
+}
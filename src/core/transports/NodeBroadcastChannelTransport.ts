@@ -0,0 +1,61 @@
+import type { Transport, TransportChannel } from '../../types/events';
+
+/**
+ * Shape of the `BroadcastChannel` class of Node's `worker_threads` module
+ */
+export type NodeBroadcastChannelConstructor = new (name: string) => {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: Event) => void): void;
+  removeEventListener(type: 'message', listener: (event: Event) => void): void;
+  close(): void;
+  unref?(): unknown;
+};
+
+/**
+ * Transport using the `BroadcastChannel` of Node's `worker_threads` module
+ * Reaches the main thread and every worker thread of the process. The class is passed in,
+ * so this module can be imported in browsers. Open channels do not keep the process alive.
+ * @example
+ * ```ts
+ * import { BroadcastChannel } from 'node:worker_threads';
+ *
+ * const service = new BroadcastService({
+ *   transport: new NodeBroadcastChannelTransport(BroadcastChannel),
+ * });
+ * ```
+ */
+export class NodeBroadcastChannelTransport implements Transport {
+  private BroadcastChannelClass: NodeBroadcastChannelConstructor;
+
+  /**
+   * Create a transport using the given BroadcastChannel class
+   * @param BroadcastChannelClass - `BroadcastChannel` imported from `node:worker_threads`
+   */
+  constructor(BroadcastChannelClass: NodeBroadcastChannelConstructor) {
+    this.BroadcastChannelClass = BroadcastChannelClass;
+  }
+
+  /**
+   * Open a BroadcastChannel with the given name
+   * @param channelName - The name of the channel
+   */
+  open(channelName: string): TransportChannel {
+    const channel = new this.BroadcastChannelClass(channelName);
+    // Let the process exit while channels are still open
+    channel.unref?.();
+
+    return {
+      post: (message) => {
+        channel.postMessage(message);
+      },
+      onMessage: (listener) => {
+        const handler = (event: Event) => listener((event as MessageEvent).data);
+        channel.addEventListener('message', handler);
+        return () => channel.removeEventListener('message', handler);
+      },
+      close: () => {
+        channel.close();
+      },
+    };
+  }
+}
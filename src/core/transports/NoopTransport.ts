@@ -0,0 +1,19 @@
+import type { Transport, TransportChannel } from '../../types/events';
+
+/**
+ * Transport that drops every message
+ * `BroadcastService` uses it on the server, e.g. during server-side rendering, so broadcasting
+ * and subscribing are safe there but never reach another process
+ */
+export class NoopTransport implements Transport {
+  /**
+   * Open a channel that sends and receives nothing
+   */
+  open(): TransportChannel {
+    return {
+      post: () => {},
+      onMessage: () => () => {},
+      close: () => {},
+    };
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Transports carrying the messages of a broadcast service
+ */
+
+export { BroadcastChannelTransport } from './BroadcastChannelTransport';
+export { InMemoryTransport } from './InMemoryTransport';
+export { LocalStorageTransport } from './LocalStorageTransport';
+export type { LocalStorageTransportOptions } from './LocalStorageTransport';
+export { MessagePortTransport } from './MessagePortTransport';
+export type { MessageEndpoint, MessagePortTransportOptions } from './MessagePortTransport';
+export { NodeBroadcastChannelTransport } from './NodeBroadcastChannelTransport';
+export type { NodeBroadcastChannelConstructor } from './NodeBroadcastChannelTransport';
+export { NoopTransport } from './NoopTransport';
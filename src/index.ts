@@ -5,18 +5,89 @@
 
 // Core services
 export { EventService, eventService } from './core/EventService';
-export { BroadcastService, broadcastService } from './core/BroadcastService';
+export { BroadcastService, broadcastService, RPC_CHANNEL_PREFIX } from './core/BroadcastService';
+export { TimeoutError, RpcError } from './core/errors';
+export { createEventBridge, DEFAULT_BRIDGE_CHANNEL } from './core/EventBridge';
+export type { EventBridgeOptions } from './core/EventBridge';
+export {
+  LeaderElection,
+  leaderElection,
+  LEADER_ELECTION_CHANNEL_PREFIX,
+} from './core/LeaderElection';
+export type { LeaderElectionOptions } from './core/LeaderElection';
+export { Presence, presence, PRESENCE_CHANNEL_PREFIX } from './core/Presence';
+export type { Peer, PeerMetadata, PresenceOptions } from './core/Presence';
+export {
+  BroadcastChannelTransport,
+  InMemoryTransport,
+  LocalStorageTransport,
+  MessagePortTransport,
+  NodeBroadcastChannelTransport,
+  NoopTransport,
+} from './core/transports';
+export type {
+  LocalStorageTransportOptions,
+  MessageEndpoint,
+  MessagePortTransportOptions,
+  NodeBroadcastChannelConstructor,
+} from './core/transports';
+export { isServer } from './core/environment';
 
 // React hooks
 export { useEventEmit } from './react/useEventEmit';
 export { useEventOn } from './react/useEventOn';
+export type { UseEventOnOptions } from './react/useEventOn';
 export { useEventState } from './react/useEventState';
+export type { UseEventStateOptions } from './react/useEventState';
+export { useEventReducer } from './react/useEventReducer';
+export type { EventReducerAction, UseEventReducerOptions } from './react/useEventReducer';
 export { useBroadcast, useBroadcastOn } from './react/useBroadcast';
+export type { UseBroadcastOnOptions } from './react/useBroadcast';
+export { useSharedState, SHARED_STATE_CHANNEL_PREFIX } from './react/useSharedState';
+export { useIsLeader } from './react/useIsLeader';
+export { usePeers } from './react/usePeers';
+export { useEventBridge, EventBridgeProvider } from './react/useEventBridge';
+export type { EventBridgeProviderProps } from './react/useEventBridge';
+export {
+  EventSystemProvider,
+  useEventService,
+  useBroadcastService,
+} from './react/EventSystemProvider';
+export type { EventSystemProviderProps } from './react/EventSystemProvider';
 
 // Types
 export type {
+  EventMap,
+  DefaultEventMap,
+  EventKey,
+  ChannelMap,
+  DefaultChannelMap,
+  ChannelKey,
   EventPayload,
   EventListener,
+  EmittedEventPayload,
+  ListenerOptions,
+  Subscription,
+  WaitForOptions,
+  EmitAsyncOptions,
+  EventMiddleware,
+  EventServiceOptions,
+  EventServiceMetaEvents,
+  EventErrorContext,
+  EventErrorEvent,
+  BroadcastServiceOptions,
+  BroadcastErrorContext,
+  BroadcastMessageMeta,
+  BroadcastEnvelope,
+  BroadcastCallback,
+  BroadcastSubscribeOptions,
+  BroadcastOptions,
+  BroadcastArgs,
+  RpcRequestOptions,
+  RpcResponse,
+  RpcHandler,
+  Transport,
+  TransportChannel,
   IEventService,
   IBroadcastService,
 } from './types/events';
@@ -0,0 +1,90 @@
+import * as React from 'react';
+import { createContext, useContext, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import type { ChannelMap, DefaultChannelMap, DefaultEventMap, EventMap } from '../types/events';
+import {
+  BroadcastService,
+  broadcastService as defaultBroadcastService,
+} from '../core/BroadcastService';
+import { EventService, eventService as defaultEventService } from '../core/EventService';
+
+/**
+ * Services supplied by the closest `EventSystemProvider`
+ */
+type EventSystemContextValue = {
+  eventService?: EventService<any>;
+  broadcastService?: BroadcastService<any>;
+};
+
+const EventSystemContext = createContext<EventSystemContextValue>({});
+
+/**
+ * Props of `EventSystemProvider`
+ */
+export type EventSystemProviderProps = {
+  /**
+   * Event service for hooks below (defaults to the one of an outer provider, then the singleton)
+   */
+  eventService?: EventService<any>;
+
+  /**
+   * Broadcast service for hooks below (defaults to the one of an outer provider, then the singleton)
+   */
+  broadcastService?: BroadcastService<any>;
+
+  children?: ReactNode;
+};
+
+/**
+ * Component that supplies service instances to the hooks below it
+ * Hooks use the service passed as their argument first, then the closest provider's,
+ * then the singleton. A nested provider only overrides the services it is given.
+ * @example
+ * ```tsx
+ * const checkoutEvents = new EventService<CheckoutEvents>();
+ *
+ * <EventSystemProvider eventService={checkoutEvents}>
+ *   <Checkout />
+ * </EventSystemProvider>
+ * ```
+ */
+export function EventSystemProvider({
+  eventService,
+  broadcastService,
+  children,
+}: EventSystemProviderProps) {
+  const parent = useContext(EventSystemContext);
+  const value = useMemo(
+    () => ({
+      eventService: eventService ?? parent.eventService,
+      broadcastService: broadcastService ?? parent.broadcastService,
+    }),
+    [eventService, broadcastService, parent]
+  );
+
+  return <EventSystemContext.Provider value={value}>{children}</EventSystemContext.Provider>;
+}
+
+/**
+ * Hook to get the event service hooks should use
+ * @param service - Service passed explicitly, which wins over the provider's
+ * @returns The given service, the closest provider's, or the singleton
+ */
+export function useEventService<TEvents extends EventMap = DefaultEventMap>(
+  service?: EventService<TEvents>
+): EventService<TEvents> {
+  const context = useContext(EventSystemContext);
+  return service ?? context.eventService ?? (defaultEventService as EventService<any>);
+}
+
+/**
+ * Hook to get the broadcast service hooks should use
+ * @param service - Service passed explicitly, which wins over the provider's
+ * @returns The given service, the closest provider's, or the singleton
+ */
+export function useBroadcastService<TChannels extends ChannelMap = DefaultChannelMap>(
+  service?: BroadcastService<TChannels>
+): BroadcastService<TChannels> {
+  const context = useContext(EventSystemContext);
+  return service ?? context.broadcastService ?? (defaultBroadcastService as BroadcastService<any>);
+}
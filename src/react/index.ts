@@ -4,5 +4,21 @@
 
 export { useEventEmit } from './useEventEmit';
 export { useEventOn } from './useEventOn';
+export type { UseEventOnOptions } from './useEventOn';
 export { useEventState } from './useEventState';
+export type { UseEventStateOptions } from './useEventState';
+export { useEventReducer } from './useEventReducer';
+export type { EventReducerAction, UseEventReducerOptions } from './useEventReducer';
 export { useBroadcast, useBroadcastOn } from './useBroadcast';
+export type { UseBroadcastOnOptions } from './useBroadcast';
+export { useSharedState, SHARED_STATE_CHANNEL_PREFIX } from './useSharedState';
+export { useIsLeader } from './useIsLeader';
+export { usePeers } from './usePeers';
+export { useEventBridge, EventBridgeProvider } from './useEventBridge';
+export type { EventBridgeProviderProps } from './useEventBridge';
+export {
+  EventSystemProvider,
+  useEventService,
+  useBroadcastService,
+} from './EventSystemProvider';
+export type { EventSystemProviderProps } from './EventSystemProvider';
@@ -1,60 +1,122 @@
 import { useCallback, useEffect } from "react";
-import { broadcastService } from "../core/BroadcastService";
+import type {
+  BroadcastArgs,
+  BroadcastCallback,
+  BroadcastSubscribeOptions,
+  ChannelKey,
+  ChannelMap,
+  DefaultChannelMap,
+} from "../types/events";
+import { BroadcastService } from "../core/BroadcastService";
+import { isServer } from "../core/environment";
+import { useBroadcastService } from "./EventSystemProvider";
+import { useLatest } from "./useLatest";
+
+/**
+ * Options for useBroadcastOn
+ */
+export type UseBroadcastOnOptions = BroadcastSubscribeOptions & {
+  /**
+   * Subscribe only while true, e.g. to pause listening (defaults to true)
+   */
+  enabled?: boolean;
+};
 
 /**
  * Hook to broadcast messages to other windows/tabs
- * @param service - Optional custom broadcast service instance (defaults to singleton)
- * @returns Function to broadcast messages
+ * On the server, the returned function does nothing
+ * @param service - Optional custom broadcast service instance (defaults to the provider's or singleton)
+ * @returns Function to broadcast messages, typed by the service's channel map
  * @example
  * ```tsx
+ * type AppChannels = { 'my-channel': { message: string } };
+ * const appChannels = new BroadcastService<AppChannels>();
+ *
  * function MyComponent() {
- *   const broadcast = useBroadcast();
+ *   const broadcast = useBroadcast(appChannels);
  *
  *   const handleClick = () => {
  *     broadcast('my-channel', { message: 'Hello from another tab!' });
  *   };
  *
+ *   // Also deliver to subscribers in this tab
+ *   const handleUpdate = () => {
+ *     broadcast('my-channel', { message: 'Hello everyone!' }, { local: true });
+ *   };
+ *
  *   return <button onClick={handleClick}>Broadcast</button>;
  * }
  * ```
  */
-export function useBroadcast(service = broadcastService) {
+export function useBroadcast<TChannels extends ChannelMap = DefaultChannelMap>(
+  service?: BroadcastService<TChannels>
+) {
+  const broadcastService = useBroadcastService(service);
+
   return useCallback(
-    (channelName: string, data?: any) => {
-      service.broadcast(channelName, data);
+    <K extends ChannelKey<TChannels>>(channelName: K, ...args: BroadcastArgs<TChannels, K>) => {
+      if (isServer()) {
+        return;
+      }
+      broadcastService.broadcast(channelName, ...args);
     },
-    [service]
+    [broadcastService]
   );
 }
 
 /**
  * Hook to subscribe to broadcast messages from other windows/tabs
- * Automatically unsubscribes when the component unmounts
+ * Automatically unsubscribes when the component unmounts. The latest callback is always called,
+ * so an inline function does not resubscribe on every render
  * @param channelName - The channel name to subscribe to
- * @param callback - Function to call when a message is received
- * @param service - Optional custom broadcast service instance (defaults to singleton)
+ * @param callback - Function to call with the message data and its metadata
+ * @param service - Optional custom broadcast service instance (defaults to the provider's or singleton)
+ * @param options - Optional `includeSelf` or `excludeSelf` to control delivery of this tab's messages,
+ * and `enabled` to pause the subscription
  * @example
  * ```tsx
+ * type AppChannels = { 'my-channel': { message: string } };
+ * const appChannels = new BroadcastService<AppChannels>();
+ *
  * function MyComponent() {
  *   useBroadcastOn('my-channel', (data) => {
- *     console.log('Received message:', data);
- *   });
+ *     console.log('Received message:', data.message);
+ *   }, appChannels);
  *
  *   return <div>Listening to broadcast channel</div>;
  * }
+ *
+ * // Only listen while signed in
+ * useBroadcastOn('my-channel', handleMessage, appChannels, { enabled: isSignedIn });
  * ```
  */
-export function useBroadcastOn(
-  channelName: string,
-  callback: (data: any) => void,
-  service = broadcastService
+export function useBroadcastOn<
+  TChannels extends ChannelMap = DefaultChannelMap,
+  K extends ChannelKey<TChannels> = ChannelKey<TChannels>,
+>(
+  channelName: K,
+  callback: BroadcastCallback<TChannels[K]>,
+  service?: BroadcastService<TChannels>,
+  options: UseBroadcastOnOptions = {}
 ) {
+  const broadcastService = useBroadcastService(service);
+  const { includeSelf, excludeSelf, enabled = true } = options;
+  const callbackRef = useLatest(callback);
+
   useEffect(() => {
-    const listenerId = service.subscribe(channelName, callback);
+    if (!enabled) {
+      return;
+    }
+
+    const listenerId = broadcastService.subscribe(
+      channelName,
+      (data, meta) => callbackRef.current(data, meta),
+      { includeSelf, excludeSelf }
+    );
 
     // Cleanup: unsubscribe on unmount
     return () => {
-      service.unsubscribe(channelName, listenerId);
+      broadcastService.unsubscribe(channelName, listenerId);
     };
-  }, [channelName, callback, service]);
+  }, [channelName, broadcastService, includeSelf, excludeSelf, enabled, callbackRef]);
 }
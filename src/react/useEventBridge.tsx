@@ -0,0 +1,74 @@
+import * as React from 'react';
+import { useEffect } from 'react';
+import type { ReactNode } from 'react';
+import type { DefaultEventMap, EventMap } from '../types/events';
+import { createEventBridge } from '../core/EventBridge';
+import type { EventBridgeOptions } from '../core/EventBridge';
+import { useBroadcastService, useEventService } from './EventSystemProvider';
+
+/**
+ * Hook to mirror selected events of an event service to other tabs and back
+ * The bridge is created on mount and stopped on unmount. Services not given in the options
+ * come from the closest `EventSystemProvider`, then the singletons
+ * @param options - Event types to mirror, plus optional services and channel name
+ * @example
+ * ```tsx
+ * type AppEvents = { 'cart:updated': { items: string[] } };
+ * const appEvents = new EventService<AppEvents>();
+ *
+ * function App() {
+ *   useEventBridge({ eventService: appEvents, eventTypes: ['cart:*'] });
+ *
+ *   return <Cart />;
+ * }
+ * ```
+ */
+export function useEventBridge<TEvents extends EventMap = DefaultEventMap>(
+  options: EventBridgeOptions<TEvents>
+) {
+  const { channelName } = options;
+  const eventService = useEventService(options.eventService);
+  const broadcastService = useBroadcastService(options.broadcastService);
+  // Compare event types by value, so an inline array does not recreate the bridge
+  const eventTypesKey = JSON.stringify(options.eventTypes);
+
+  useEffect(() => {
+    const bridge = createEventBridge({
+      eventTypes: JSON.parse(eventTypesKey),
+      eventService,
+      broadcastService,
+      channelName,
+    });
+
+    // Cleanup: stop the bridge on unmount
+    return () => {
+      bridge.unsubscribe();
+    };
+  }, [eventTypesKey, eventService, broadcastService, channelName]);
+}
+
+/**
+ * Props of `EventBridgeProvider`
+ */
+export type EventBridgeProviderProps<TEvents extends EventMap = DefaultEventMap> =
+  EventBridgeOptions<TEvents> & {
+    children?: ReactNode;
+  };
+
+/**
+ * Component that mirrors selected events to other tabs while it is mounted
+ * @example
+ * ```tsx
+ * <EventBridgeProvider eventService={appEvents} eventTypes={['cart:*', 'auth:logout']}>
+ *   <App />
+ * </EventBridgeProvider>
+ * ```
+ */
+export function EventBridgeProvider<TEvents extends EventMap = DefaultEventMap>({
+  children,
+  ...options
+}: EventBridgeProviderProps<TEvents>) {
+  useEventBridge(options);
+
+  return <>{children}</>;
+}
@@ -1,30 +1,42 @@
 import { useCallback } from 'react';
-import { eventService } from '../core/EventService';
+import type { DefaultEventMap, EventKey, EventMap } from '../types/events';
+import { isServer } from '../core/environment';
+import { EventService } from '../core/EventService';
+import { useEventService } from './EventSystemProvider';
 
 /**
  * Hook to get an event emission function
- * @param service - Optional custom event service instance (defaults to singleton)
- * @returns Function to emit events
+ * On the server, the returned function does nothing
+ * @param service - Optional custom event service instance (defaults to the provider's or singleton)
+ * @returns Function to emit events, typed by the service's event map
  * @example
  * ```tsx
- * type CounterEvent = { count: number };
+ * type AppEvents = { counter: { count: number } };
+ * const appEvents = new EventService<AppEvents>();
  *
  * function MyComponent() {
- *   const emit = useEventEmit();
+ *   const emit = useEventEmit(appEvents);
  *
  *   const handleClick = () => {
- *     emit<CounterEvent>('counter', { count: 1 });
+ *     emit('counter', { count: 1 });
  *   };
  *
  *   return <button onClick={handleClick}>Increment</button>;
  * }
  * ```
  */
-export function useEventEmit(service = eventService) {
+export function useEventEmit<TEvents extends EventMap = DefaultEventMap>(
+  service?: EventService<TEvents>
+) {
+  const eventService = useEventService(service);
+
   return useCallback(
-    <T>(eventType: string, data: T) => {
-      service.emit(eventType, data);
+    <K extends EventKey<TEvents>>(eventType: K, data: TEvents[K]) => {
+      if (isServer()) {
+        return;
+      }
+      eventService.emit(eventType, data);
     },
-    [service]
+    [eventService]
   );
 }
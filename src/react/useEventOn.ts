@@ -1,43 +1,80 @@
 import { useEffect } from 'react';
-import type { EventPayload } from '../types/events';
-import { eventService } from '../core/EventService';
+import type {
+  DefaultEventMap,
+  EventData,
+  EventKeyOrPattern,
+  EventMap,
+  EventPayload,
+} from '../types/events';
+import { EventService } from '../core/EventService';
+import { useEventService } from './EventSystemProvider';
+import { useLatest } from './useLatest';
+
+/**
+ * Options for useEventOn
+ */
+export type UseEventOnOptions = {
+  /**
+   * Subscribe only while true, e.g. to pause listening (defaults to true)
+   */
+  enabled?: boolean;
+};
 
 /**
  * Hook to subscribe to an event
- * Automatically unsubscribes when the component unmounts
- * @param eventType - The event type to listen for
- * @param callback - Function to call when the event is emitted
- * @param service - Optional custom event service instance (defaults to singleton)
+ * Automatically unsubscribes when the component unmounts. The latest callback is always called,
+ * so an inline function does not resubscribe on every render
+ * @param eventType - The event type to listen for, or a wildcard pattern such as `user:*`
+ * @param callback - Function to call with the data and the payload, whose `type` is the concrete event name
+ * @param service - Optional custom event service instance (defaults to the provider's or singleton)
+ * @param options - Optional `enabled` flag to pause the subscription
  * @example
  * ```tsx
- * type CounterEvent = { count: number };
+ * type AppEvents = { counter: { count: number } };
+ * const appEvents = new EventService<AppEvents>();
  *
  * function MyComponent() {
- *   useEventOn<CounterEvent>('counter', (data) => {
+ *   useEventOn('counter', (data) => {
  *     console.log(`Counter changed: ${data.count}`);
- *   });
+ *   }, appEvents);
  *
  *   return <div>Listening to counter events</div>;
  * }
+ *
+ * // Patterns receive the concrete event name on the payload
+ * useEventOn('user:*', (data, { type }) => {
+ *   console.log(`${type} received`);
+ * }, appEvents);
+ *
+ * // Only listen while the panel is open
+ * useEventOn('counter', handleCounter, appEvents, { enabled: isOpen });
  * ```
  */
-export function useEventOn<T = unknown>(
-  eventType: string,
-  callback: (data: T) => void,
-  service = eventService
+export function useEventOn<
+  TEvents extends EventMap = DefaultEventMap,
+  K extends EventKeyOrPattern<TEvents> = EventKeyOrPattern<TEvents>,
+>(
+  eventType: K,
+  callback: (data: EventData<TEvents, K>, payload: EventPayload<EventData<TEvents, K>>) => void,
+  service?: EventService<TEvents>,
+  options: UseEventOnOptions = {}
 ) {
+  const eventService = useEventService(service);
+  const { enabled = true } = options;
+  const callbackRef = useLatest(callback);
+
   useEffect(() => {
-    const listener = (payload: EventPayload<T>) => {
-      if (payload.type === eventType) {
-        callback(payload.data);
-      }
-    };
+    if (!enabled) {
+      return;
+    }
 
-    service.on<T>(eventType, listener);
+    const subscription = eventService.on(eventType, (payload) => {
+      callbackRef.current(payload.data, payload);
+    });
 
     // Cleanup: remove event listener on unmount
     return () => {
-      service.off<T>(eventType, listener);
+      subscription.unsubscribe();
     };
-  }, [eventType, callback, service]);
+  }, [eventType, eventService, enabled, callbackRef]);
 }
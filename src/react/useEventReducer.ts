@@ -0,0 +1,94 @@
+import { useEffect, useReducer } from 'react';
+import type { DefaultEventMap, EventKey, EventMap } from '../types/events';
+import { EventService } from '../core/EventService';
+import { useEventService } from './EventSystemProvider';
+
+/**
+ * Event passed to the reducer of useEventReducer
+ * A union over the event types, so checking `type` narrows `data`
+ */
+export type EventReducerAction<
+  TEvents extends EventMap = DefaultEventMap,
+  K extends EventKey<TEvents> = EventKey<TEvents>,
+> = {
+  [P in K]: { type: P; data: TEvents[P] };
+}[K];
+
+/**
+ * Options for useEventReducer
+ */
+export type UseEventReducerOptions<
+  TEvents extends EventMap = DefaultEventMap,
+  K extends EventKey<TEvents> = EventKey<TEvents>,
+> = {
+  /**
+   * Event types whose payloads are folded into the state
+   */
+  events: K[];
+};
+
+/**
+ * Hook that folds the payloads of several event types into state with a reducer
+ * Emitters can send changes such as `cart:add` instead of the full state each time.
+ * The latest reducer is always used, so it may be an inline function
+ * @param reducer - Function computing the next state from the state and an emitted event
+ * @param initialState - Initial state value
+ * @param options - Event types to listen for
+ * @param service - Optional custom event service instance (defaults to the provider's or singleton)
+ * @returns Current state, updated whenever one of the events is emitted
+ * @example
+ * ```tsx
+ * type CartEvents = { 'cart:add': string; 'cart:remove': string; 'cart:clear': void };
+ * const cartEvents = new EventService<CartEvents>();
+ *
+ * function Cart() {
+ *   const items = useEventReducer(
+ *     (items: string[], event) => {
+ *       switch (event.type) {
+ *         case 'cart:add':
+ *           return [...items, event.data];
+ *         case 'cart:remove':
+ *           return items.filter((item) => item !== event.data);
+ *         case 'cart:clear':
+ *           return [];
+ *       }
+ *     },
+ *     [],
+ *     { events: ['cart:add', 'cart:remove', 'cart:clear'] },
+ *     cartEvents
+ *   );
+ *
+ *   return <p>{items.length} items</p>;
+ * }
+ * ```
+ */
+export function useEventReducer<
+  TEvents extends EventMap = DefaultEventMap,
+  TState = unknown,
+  K extends EventKey<TEvents> = EventKey<TEvents>,
+>(
+  reducer: (state: TState, action: EventReducerAction<TEvents, K>) => TState,
+  initialState: TState,
+  options: UseEventReducerOptions<TEvents, K>,
+  service?: EventService<TEvents>
+): TState {
+  const eventService = useEventService(service);
+  const [state, dispatch] = useReducer(reducer, initialState);
+  // Compare event types by value, so an inline array does not resubscribe
+  const eventsKey = JSON.stringify(options.events);
+
+  useEffect(() => {
+    const subscriptions = (JSON.parse(eventsKey) as K[]).map((eventType) =>
+      eventService.on(eventType, (payload) => {
+        dispatch({ type: eventType, data: payload.data } as EventReducerAction<TEvents, K>);
+      })
+    );
+
+    // Cleanup: remove event listeners on unmount
+    return () => {
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+    };
+  }, [eventsKey, eventService]);
+
+  return state;
+}
@@ -1,20 +1,51 @@
-import { useState } from 'react';
-import { useEventOn } from './useEventOn';
-import { eventService } from '../core/EventService';
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import type { DefaultEventMap, EventKey, EventMap } from '../types/events';
+import { EventService } from '../core/EventService';
+import { useEventService } from './EventSystemProvider';
+
+/**
+ * Options for useEventState
+ */
+export type UseEventStateOptions<TState = any, TSelected = TState> = {
+  /**
+   * Start from the last payload kept for a sticky event type instead of `initialState`
+   * when one is available
+   */
+  initializeFromLast?: boolean;
+
+  /**
+   * Derive the returned value from the state; the component only re-renders when it changes
+   */
+  selector?: (state: TState) => TSelected;
+
+  /**
+   * Compare the previous and next selected values (defaults to `Object.is`)
+   */
+  equalityFn?: (previous: TSelected, next: TSelected) => boolean;
+
+  /**
+   * State to render on the server and while hydrating (defaults to `initialState`)
+   */
+  getServerSnapshot?: () => TState;
+};
 
 /**
  * Hook that combines event subscription with state management
- * Automatically updates state when the specified event is emitted
+ * Automatically updates state when the specified event is emitted. The state is read with
+ * `useSyncExternalStore`, so concurrent renders never see different values.
+ * On the server and while hydrating, it returns `getServerSnapshot()`, or `initialState`
  * @param eventType - The event type to listen for
  * @param initialState - Initial state value
- * @param service - Optional custom event service instance (defaults to singleton)
- * @returns Current state value that updates when the event is emitted
+ * @param service - Optional custom event service instance (defaults to the provider's or singleton)
+ * @param options - Optional `initializeFromLast`, `selector`, `equalityFn` and `getServerSnapshot`
+ * @returns Current state value (or the selected part) that updates when the event is emitted
  * @example
  * ```tsx
- * type CounterEvent = { count: number };
+ * type AppEvents = { counter: { count: number } };
+ * const appEvents = new EventService<AppEvents>();
  *
  * function MyComponent() {
- *   const counter = useEventState<CounterEvent>('counter', { count: 0 });
+ *   const counter = useEventState('counter', { count: 0 }, appEvents);
  *
  *   return (
  *     <div>
@@ -22,18 +53,92 @@ import { eventService } from '../core/EventService';
  *     </div>
  *   );
  * }
+ *
+ * // With `appEvents.setSticky('counter')`, mount with the last emitted value
+ * const counter = useEventState('counter', { count: 0 }, appEvents, { initializeFromLast: true });
+ *
+ * // Only re-render when the selected part changes
+ * const isEven = useEventState('counter', { count: 0 }, appEvents, {
+ *   selector: (state) => state.count % 2 === 0,
+ * });
  * ```
  */
-export function useEventState<T>(eventType: string, initialState: T, service = eventService): T {
-  const [state, setState] = useState<T>(initialState);
+export function useEventState<
+  TEvents extends EventMap = DefaultEventMap,
+  K extends EventKey<TEvents> = EventKey<TEvents>,
+  TSelected = TEvents[K],
+>(
+  eventType: K,
+  initialState: TEvents[K],
+  service?: EventService<TEvents>,
+  options: UseEventStateOptions<TEvents[K], TSelected> = {}
+): TSelected {
+  const eventService = useEventService(service);
+  const { initializeFromLast, selector, equalityFn, getServerSnapshot } = options;
+  const initialStateRef = useRef(initialState);
+  // Latest payload, set on first read so the server never reads sticky payloads
+  const stateRef = useRef<{ value: TEvents[K] }>();
+  // Selection of the last commit, kept while new selections are equal to it
+  const committedRef = useRef<{ selected: TSelected }>();
 
-  useEventOn<T>(
-    eventType,
-    (data) => {
-      setState(data);
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      const subscription = eventService.on(eventType, (payload) => {
+        stateRef.current = { value: payload.data as TEvents[K] };
+        onStoreChange();
+      });
+
+      return () => {
+        subscription.unsubscribe();
+      };
     },
-    service
+    [eventService, eventType]
   );
 
-  return state;
+  const getSnapshot = useCallback(() => {
+    if (!stateRef.current) {
+      const last = initializeFromLast ? eventService.getLast(eventType) : undefined;
+      stateRef.current = { value: last ? last.data : initialStateRef.current };
+    }
+    return stateRef.current.value;
+  }, [eventService, eventType, initializeFromLast]);
+
+  const getServerState = useCallback(
+    () => (getServerSnapshot ? getServerSnapshot() : initialStateRef.current),
+    [getServerSnapshot]
+  );
+
+  const [getSelection, getServerSelection] = useMemo(() => {
+    const isEqual = equalityFn ?? Object.is;
+
+    // Memoize per state, so the snapshot is stable while the state does not change
+    const createSelection = (getState: () => TEvents[K]) => {
+      let memoized: { state: TEvents[K]; selected: TSelected } | undefined;
+
+      return () => {
+        const state = getState();
+        if (memoized && Object.is(memoized.state, state)) {
+          return memoized.selected;
+        }
+
+        const selected = selector ? selector(state) : (state as unknown as TSelected);
+        const previous = memoized ?? committedRef.current;
+        memoized = {
+          state,
+          selected: previous && isEqual(previous.selected, selected) ? previous.selected : selected,
+        };
+        return memoized.selected;
+      };
+    };
+
+    return [createSelection(getSnapshot), createSelection(getServerState)];
+  }, [getSnapshot, getServerState, selector, equalityFn]);
+
+  const selected = useSyncExternalStore(subscribe, getSelection, getServerSelection);
+
+  useEffect(() => {
+    committedRef.current = { selected };
+  }, [selected]);
+
+  return selected;
 }
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { LeaderElection, leaderElection } from '../core/LeaderElection';
+
+/**
+ * Hook to check whether this tab is the elected leader
+ * Starts the election if it is not running yet. The election keeps running after
+ * unmount; call `election.stop()` to resign.
+ * @param election - Optional custom leader election (defaults to singleton)
+ * @returns True while this tab is the leader
+ * @example
+ * ```tsx
+ * const syncElection = new LeaderElection({ name: 'background-sync' });
+ *
+ * function BackgroundSync() {
+ *   const isLeader = useIsLeader(syncElection);
+ *
+ *   useEffect(() => {
+ *     if (isLeader) {
+ *       return startSync();
+ *     }
+ *   }, [isLeader]);
+ *
+ *   return null;
+ * }
+ * ```
+ */
+export function useIsLeader(election: LeaderElection = leaderElection): boolean {
+  const [isLeader, setIsLeader] = useState(() => election.isLeader());
+
+  useEffect(() => {
+    const subscription = election.onLeadershipChange(setIsLeader);
+    setIsLeader(election.isLeader());
+    election.start();
+
+    // Cleanup: stop listening on unmount
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [election]);
+
+  return isLeader;
+}
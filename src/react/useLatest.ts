@@ -0,0 +1,21 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { isServer } from '../core/environment';
+
+/**
+ * Hook keeping the latest value in a ref, to read it from long-lived callbacks without
+ * listing it as an effect dependency
+ * @param value - The value to keep, updated after every render
+ * @returns Ref holding the latest value
+ */
+export function useLatest<T>(value: T) {
+  const ref = useRef(value);
+
+  // Layout effects warn on the server, where neither effect runs. The environment never
+  // changes between renders, so the same hook is always called
+  const useIsomorphicLayoutEffect = isServer() ? useEffect : useLayoutEffect;
+  useIsomorphicLayoutEffect(() => {
+    ref.current = value;
+  });
+
+  return ref;
+}
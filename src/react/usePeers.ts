@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { Presence, presence as defaultPresence } from '../core/Presence';
+import type { Peer, PeerMetadata } from '../core/Presence';
+
+/**
+ * Hook to list the other open tabs of the app
+ * Starts the presence registry if it is not running yet. The registry keeps running
+ * after unmount; call `presence.stop()` to leave.
+ * @param presence - Optional custom presence registry (defaults to singleton)
+ * @returns The current peers, updated when peers join, leave or change their metadata
+ * @example
+ * ```tsx
+ * const appPresence = new Presence({ metadata: { route: '/' } });
+ *
+ * function OpenTabs() {
+ *   const peers = usePeers(appPresence);
+ *
+ *   return (
+ *     <ul>
+ *       {peers.map((peer) => (
+ *         <li key={peer.id}>{String(peer.metadata.route)}</li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function usePeers<TMetadata extends PeerMetadata = PeerMetadata>(
+  presence: Presence<TMetadata> = defaultPresence as Presence<any>
+): Peer<TMetadata>[] {
+  const [peers, setPeers] = useState(() => presence.getPeers());
+
+  useEffect(() => {
+    const update = () => setPeers(presence.getPeers());
+    const subscriptions = [
+      presence.onPeerJoin(update),
+      presence.onPeerLeave(update),
+      presence.onPeerUpdate(update),
+    ];
+    update();
+    presence.start();
+
+    // Cleanup: stop listening on unmount
+    return () => {
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+    };
+  }, [presence]);
+
+  return peers;
+}
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SetStateAction } from 'react';
+import { BroadcastService } from '../core/BroadcastService';
+import { useBroadcastService } from './EventSystemProvider';
+
+/**
+ * Prefix of the broadcast channel used for each shared state key
+ */
+export const SHARED_STATE_CHANNEL_PREFIX = 'shared-state:';
+
+/**
+ * Shared value with the write it came from
+ */
+type SharedStateEntry<T> = {
+  value: T;
+
+  /**
+   * Write time; 0 until the value is set or received from another tab
+   */
+  timestamp: number;
+
+  /**
+   * Tab that wrote the value, to break timestamp ties
+   */
+  writerId: string;
+};
+
+/**
+ * Message sent on a shared state channel
+ * `request` asks other tabs for their current value, `update` carries a value
+ */
+type SharedStateMessage<T> = { kind: 'request' } | { kind: 'update'; entry: SharedStateEntry<T> };
+
+/**
+ * Last-writer-wins ordering: later timestamps win, ties go to the higher tab ID
+ */
+function isNewer<T>(entry: SharedStateEntry<T>, current: SharedStateEntry<T>): boolean {
+  return (
+    entry.timestamp > current.timestamp ||
+    (entry.timestamp === current.timestamp && entry.writerId > current.writerId)
+  );
+}
+
+/**
+ * Hook for state kept consistent across all tabs
+ * Every component using the same key, in this tab or another, sees the same value.
+ * On mount, the current value is requested from tabs that already have one.
+ * Concurrent writes are resolved by last-writer-wins on the write timestamp.
+ * Values must be supported by the structured clone algorithm.
+ * @param key - Key identifying the shared value; changing it starts over from `initialState`
+ * @param initialState - Value until one is set or received from another tab
+ * @param service - Optional custom broadcast service instance (defaults to the provider's or singleton)
+ * @returns Tuple of the current value and a setter accepting a value or an updater function
+ * @example
+ * ```tsx
+ * function ThemeToggle() {
+ *   const [theme, setTheme] = useSharedState('theme', 'light');
+ *
+ *   return (
+ *     <button onClick={() => setTheme((prev) => (prev === 'light' ? 'dark' : 'light'))}>
+ *       Theme: {theme}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useSharedState<T>(
+  key: string,
+  initialState: T,
+  service?: BroadcastService<any>
+): [T, (action: SetStateAction<T>) => void] {
+  const broadcastService = useBroadcastService(service);
+  const channelName = `${SHARED_STATE_CHANNEL_PREFIX}${key}`;
+  const [state, setState] = useState<SharedStateEntry<T>>(() => ({
+    value: initialState,
+    timestamp: 0,
+    writerId: '',
+  }));
+  // Latest entry, readable from broadcast callbacks and the setter without re-subscribing
+  const stateRef = useRef(state);
+  // Channel the current entry belongs to, to start over when the key changes
+  const stateChannelRef = useRef(channelName);
+  const initialStateRef = useRef(initialState);
+
+  const apply = useCallback((entry: SharedStateEntry<T>) => {
+    if (isNewer(entry, stateRef.current)) {
+      stateRef.current = entry;
+      setState(entry);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (stateChannelRef.current !== channelName) {
+      stateChannelRef.current = channelName;
+      stateRef.current = { value: initialStateRef.current, timestamp: 0, writerId: '' };
+      setState(stateRef.current);
+    }
+
+    const listenerId = broadcastService.subscribe(channelName, (message: SharedStateMessage<T>) => {
+      if (message?.kind === 'update') {
+        apply(message.entry);
+      } else if (message?.kind === 'request' && stateRef.current.timestamp > 0) {
+        const reply: SharedStateMessage<T> = { kind: 'update', entry: stateRef.current };
+        broadcastService.broadcast(channelName, reply, { local: true });
+      }
+    });
+
+    // Ask tabs (and other components in this tab) for their current value
+    const request: SharedStateMessage<T> = { kind: 'request' };
+    broadcastService.broadcast(channelName, request, { local: true });
+
+    // Cleanup: unsubscribe on unmount
+    return () => {
+      broadcastService.unsubscribe(channelName, listenerId);
+    };
+  }, [channelName, broadcastService, apply]);
+
+  const setSharedState = useCallback(
+    (action: SetStateAction<T>) => {
+      const current = stateRef.current;
+      const value =
+        typeof action === 'function' ? (action as (prevState: T) => T)(current.value) : action;
+      const entry: SharedStateEntry<T> = {
+        value,
+        // Strictly after the value it replaces, even within the same millisecond
+        timestamp: Math.max(Date.now(), current.timestamp + 1),
+        writerId: broadcastService.tabId,
+      };
+
+      apply(entry);
+      const update: SharedStateMessage<T> = { kind: 'update', entry };
+      broadcastService.broadcast(channelName, update, { local: true });
+    },
+    [channelName, broadcastService, apply]
+  );
+
+  return [state.value, setSharedState];
+}
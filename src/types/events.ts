@@ -1,39 +1,556 @@
+/**
+ * Map of event names to their payload types
+ * @example
+ * ```ts
+ * type AppEvents = {
+ *   'user:updated': { id: string; name: string };
+ *   'counter:increment': { count: number };
+ * };
+ * ```
+ */
+export type EventMap = Record<string, unknown>;
+
+/**
+ * Event map used when no explicit map is provided (any name, any payload)
+ */
+export type DefaultEventMap = Record<string, any>;
+
+/**
+ * Event names of an event map
+ */
+export type EventKey<TEvents extends EventMap> = keyof TEvents & string;
+
+/**
+ * Segment of an event pattern that matches one (`*`) or any number (`**`) of segments
+ */
+type WildcardSegment = '*' | '**';
+
+/**
+ * Wildcard event pattern, e.g. `user:*`, `*:error` or `**`
+ * `*` matches exactly one `:`-separated segment, `**` matches any number of segments.
+ * Wildcards must fill a whole segment, so `user*` is an event name, not a pattern
+ */
+export type EventPattern =
+  | WildcardSegment
+  | `${WildcardSegment}:${string}`
+  | `${string}:${WildcardSegment}`
+  | `${string}:${WildcardSegment}:${string}`;
+
+/**
+ * Template literal type approximating the event names a pattern matches
+ */
+export type EventPatternMatch<P extends string> = P extends `${infer Head}*${infer Tail}`
+  ? `${Head}${string}${EventPatternMatch<Tail>}`
+  : P;
+
+/**
+ * Meta-events emitted by the event service itself
+ * `error` fires whenever a listener throws during `emit`
+ */
+export type EventServiceMetaEvents = {
+  error: EventErrorEvent;
+};
+
+/**
+ * Event name, meta-event name or wildcard pattern that can be subscribed to
+ */
+export type EventKeyOrPattern<TEvents extends EventMap> =
+  | EventKey<TEvents>
+  | keyof EventServiceMetaEvents
+  | EventPattern;
+
+/**
+ * Payload type received when subscribing to an event name or pattern
+ * Patterns receive the union of the payloads of all matching events
+ */
+export type EventData<TEvents extends EventMap, K extends string> = K extends EventKey<TEvents>
+  ? TEvents[K]
+  : K extends keyof EventServiceMetaEvents
+    ? EventServiceMetaEvents[K]
+    : TEvents[Extract<EventKey<TEvents>, EventPatternMatch<K>>];
+
+/**
+ * Map of broadcast channel names to their message types
+ * @example
+ * ```ts
+ * type AppChannels = {
+ *   'auth:logout': { reason: string };
+ *   'cart:sync': { items: string[] };
+ * };
+ * ```
+ */
+export type ChannelMap = Record<string, unknown>;
+
+/**
+ * Channel map used when no explicit map is provided (any name, any message)
+ */
+export type DefaultChannelMap = Record<string, any>;
+
+/**
+ * Channel names of a channel map
+ */
+export type ChannelKey<TChannels extends ChannelMap> = keyof TChannels & string;
+
 /**
  * Event payload structure
  */
 export type EventPayload<T = unknown> = {
+  /**
+   * The concrete event name, also for listeners subscribed with a pattern
+   */
   type: string;
   data: T;
 };
 
+/**
+ * Payload received by listeners during an emit
+ */
+export type EmittedEventPayload<T = unknown> = EventPayload<T> & {
+  /**
+   * Skip the remaining lower-priority listeners for this emit
+   */
+  stopPropagation(): void;
+};
+
 /**
  * Event listener callback type
+ * Listeners may return a promise, which `emitAsync` awaits
+ */
+export type EventListener<T = unknown> = (payload: EmittedEventPayload<T>) => void;
+
+/**
+ * Options for registering a listener
+ */
+export type ListenerOptions = {
+  /**
+   * Listeners with a higher priority run first (defaults to 0)
+   * Listeners with the same priority run in registration order
+   */
+  priority?: number;
+};
+
+declare global {
+  /**
+   * Declares `Symbol.dispose` for projects whose `lib` does not include `ESNext.Disposable`
+   * Matches the declaration in TypeScript's own lib, so both can be loaded together
+   */
+  interface SymbolConstructor {
+    readonly dispose: unique symbol;
+  }
+}
+
+/**
+ * Handle returned when subscribing to an event
+ * Supports explicit `unsubscribe()` and `using` declarations
+ * @example
+ * ```ts
+ * const subscription = eventService.on('user:updated', listener);
+ * subscription.unsubscribe();
+ *
+ * {
+ *   using sub = eventService.on('user:updated', listener);
+ * } // Unsubscribed here
+ * ```
+ */
+export interface Subscription {
+  /**
+   * Remove the listener. Safe to call more than once
+   */
+  unsubscribe(): void;
+
+  /**
+   * Alias of `unsubscribe` for `using` declarations
+   */
+  [Symbol.dispose](): void;
+}
+
+/**
+ * Details about a listener error reported to `onError`
+ */
+export type EventErrorContext = {
+  /**
+   * The emitted event type
+   */
+  eventType: string;
+
+  /**
+   * The listener that threw, undefined when async middleware of `emit` rejected
+   */
+  listener?: EventListener<any>;
+
+  /**
+   * The payload the listener received
+   */
+  payload: EventPayload<unknown>;
+};
+
+/**
+ * Data of the `error` meta-event
+ */
+export type EventErrorEvent = {
+  error: unknown;
+  context: EventErrorContext;
+};
+
+/**
+ * Options for creating an event service
+ */
+export type EventServiceOptions = {
+  /**
+   * Called when a listener throws during `emit`, or async middleware of `emit` rejects
+   * Replaces the default `console.error` logging
+   */
+  onError?: (error: unknown, context: EventErrorContext) => void;
+
+  /**
+   * Rethrow listener errors from `emit` after reporting them, so tests fail loudly
+   */
+  strict?: boolean;
+
+  /**
+   * Keep the last payloads of every event type and replay them to new subscribers
+   * `true` keeps the last payload, a number keeps that many. Use `setSticky` for single types.
+   */
+  sticky?: boolean | number;
+};
+
+/**
+ * Metadata attached to every message sent by a broadcast service
+ */
+export type BroadcastMessageMeta = {
+  /**
+   * ID of the sending tab's broadcast service
+   */
+  senderId: string;
+
+  /**
+   * Per-sender sequence number, increasing with every message
+   */
+  seq: number;
+
+  /**
+   * Send time in milliseconds since the epoch
+   */
+  timestamp: number;
+
+  /**
+   * Unique message ID
+   */
+  messageId: string;
+
+  /**
+   * Schema version of the sender
+   */
+  version: number;
+};
+
+/**
+ * Wire format of a broadcast message
+ */
+export type BroadcastEnvelope<T = unknown> = {
+  /**
+   * Marks the message as an envelope, so raw messages can still be told apart
+   */
+  __broadcastEnvelope: true;
+  meta: BroadcastMessageMeta;
+  data: T;
+
+  /**
+   * Whether the sender also delivered the message to its own subscribers
+   */
+  local?: boolean;
+};
+
+/**
+ * Callback for messages on a broadcast channel
+ * `meta` is undefined for raw messages posted without an envelope
  */
-export type EventListener<T = unknown> = (payload: EventPayload<T>) => void;
+export type BroadcastCallback<T = unknown> = (data: T, meta?: BroadcastMessageMeta) => void;
+
+/**
+ * Options for subscribing to a broadcast channel
+ * By default a subscriber receives whatever the underlying channel delivers
+ */
+export type BroadcastSubscribeOptions = {
+  /**
+   * Also receive this service's own broadcasts, delivered synchronously during `broadcast`
+   */
+  includeSelf?: boolean;
+
+  /**
+   * Ignore every message sent from this tab, including local deliveries
+   * Takes precedence over `includeSelf`
+   */
+  excludeSelf?: boolean;
+};
+
+/**
+ * Options for broadcasting a message
+ */
+export type BroadcastOptions = {
+  /**
+   * Also deliver the message to this service's subscribers (except `excludeSelf` ones),
+   * so one call updates the current tab and all other tabs
+   */
+  local?: boolean;
+};
+
+/**
+ * Arguments of `broadcast` after the channel name
+ * The data can only be left out if the channel's message type accepts `undefined`
+ */
+export type BroadcastArgs<TChannels extends ChannelMap, K extends ChannelKey<TChannels>> =
+  undefined extends TChannels[K]
+    ? [data?: TChannels[K], options?: BroadcastOptions]
+    : [data: TChannels[K], options?: BroadcastOptions];
+
+/**
+ * Options for a request to other tabs
+ */
+export type RpcRequestOptions = {
+  /**
+   * Milliseconds to wait for responses (defaults to 5000)
+   * In `first` mode the request rejects with a `TimeoutError` when no response arrives in time,
+   * in `all` mode it resolves with the responses collected so far
+   */
+  timeout?: number;
+
+  /**
+   * Reject with the signal's reason when aborted
+   */
+  signal?: AbortSignal;
+
+  /**
+   * `first` settles with the first response (default), `all` collects every response
+   */
+  mode?: 'first' | 'all';
+};
+
+/**
+ * Response of one tab, as collected by a request in `all` mode
+ */
+export type RpcResponse<T = unknown> =
+  | { status: 'fulfilled'; value: T; senderId: string }
+  | { status: 'rejected'; reason: Error; senderId: string };
+
+/**
+ * Handler answering requests for a method
+ * Its return value (or resolved value) is sent back to the caller, and a thrown error
+ * (or rejection) rejects the caller's request
+ */
+export type RpcHandler<TParams = any, TResult = unknown> = (
+  params: TParams,
+  meta: BroadcastMessageMeta | undefined
+) => TResult | Promise<TResult>;
+
+/**
+ * Details about a broadcast error reported to `onError`
+ */
+export type BroadcastErrorContext = {
+  /**
+   * The channel the error occurred on
+   */
+  channelName: string;
+
+  /**
+   * `receive` when a subscriber callback threw, `broadcast` when posting the message failed
+   */
+  operation: 'receive' | 'broadcast';
+
+  /**
+   * The message being delivered or broadcast
+   */
+  data: unknown;
+
+  /**
+   * The subscriber that threw, for `receive` errors
+   */
+  listenerId?: string;
+
+  /**
+   * The subscriber callback that threw, for `receive` errors
+   */
+  callback?: BroadcastCallback<any>;
+};
+
+/**
+ * Connection to a named channel of a transport
+ * Like `BroadcastChannel`, a connection does not receive the messages it posts itself
+ */
+export interface TransportChannel {
+  /**
+   * Send a message to the other connections to the channel
+   */
+  post(message: unknown): void;
+
+  /**
+   * Listen for messages from the other connections to the channel
+   * @returns Function that removes the listener
+   */
+  onMessage(listener: (message: unknown) => void): () => void;
+
+  /**
+   * Close the connection and remove its listeners
+   */
+  close(): void;
+}
+
+/**
+ * Messaging layer carrying the messages of a broadcast service
+ */
+export interface Transport {
+  /**
+   * Open a connection to a named channel
+   */
+  open(channelName: string): TransportChannel;
+}
+
+/**
+ * Options for creating a broadcast service
+ */
+export type BroadcastServiceOptions = {
+  /**
+   * Called when a subscriber callback throws or a broadcast fails
+   * Replaces the default `console.error` logging
+   */
+  onError?: (error: unknown, context: BroadcastErrorContext) => void;
+
+  /**
+   * Rethrow errors after reporting them, so tests fail loudly
+   */
+  strict?: boolean;
+
+  /**
+   * ID identifying this tab in message metadata
+   * Defaults to a random ID shared by every service in the tab
+   */
+  tabId?: string;
+
+  /**
+   * Schema version stamped on every message (defaults to 1)
+   */
+  version?: number;
+
+  /**
+   * Transport carrying the messages (defaults to a `BroadcastChannelTransport`; a
+   * `LocalStorageTransport` where BroadcastChannel is undefined, and a `NoopTransport` on the server)
+   */
+  transport?: Transport;
+};
+
+/**
+ * Middleware that every emitted event passes through before reaching listeners
+ * Call `next()` to continue, `next(payload)` to continue with a transformed event,
+ * or return without calling `next` to cancel the event. Return `next`'s result so
+ * that `emitAsync` can await async middleware.
+ */
+export type EventMiddleware = (
+  payload: EventPayload<any>,
+  next: (payload?: EventPayload<any>) => unknown
+) => unknown;
+
+/**
+ * Options for emitting an event and awaiting its listeners
+ */
+export type EmitAsyncOptions = {
+  /**
+   * `parallel` starts every listener before awaiting them (default),
+   * `sequential` awaits each listener before calling the next one
+   */
+  mode?: 'parallel' | 'sequential';
+};
+
+/**
+ * Options for waiting on the next occurrence of an event
+ */
+export type WaitForOptions<T = unknown> = {
+  /**
+   * Reject with a `TimeoutError` if no matching event arrives within this many milliseconds
+   */
+  timeout?: number;
+
+  /**
+   * Reject with the signal's reason when aborted
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Only resolve for payloads that match
+   */
+  predicate?: (payload: EventPayload<T>) => boolean;
+};
 
 /**
  * Event service interface
  */
-export interface IEventService {
+export interface IEventService<TEvents extends EventMap = DefaultEventMap> {
   /**
    * Emit an event with data
    */
-  emit<T>(eventType: string, data: T): void;
+  emit<K extends EventKey<TEvents>>(eventType: K, data: TEvents[K]): void;
+
+  /**
+   * Emit an event and await all listeners
+   * @returns Promise resolving with the listeners' results, or rejecting with an `AggregateError`
+   */
+  emitAsync<K extends EventKey<TEvents>>(
+    eventType: K,
+    data: TEvents[K],
+    options?: EmitAsyncOptions
+  ): Promise<unknown[]>;
+
+  /**
+   * Add a middleware that every emitted event passes through
+   * @returns Subscription that removes the middleware
+   */
+  use(middleware: EventMiddleware): Subscription;
 
   /**
-   * Subscribe to an event
+   * Subscribe to an event or wildcard pattern
+   * @returns Subscription that removes the listener
    */
-  on<T>(eventType: string, listener: EventListener<T>): void;
+  on<K extends EventKeyOrPattern<TEvents>>(
+    eventType: K,
+    listener: EventListener<EventData<TEvents, K>>,
+    options?: ListenerOptions
+  ): Subscription;
 
   /**
-   * Unsubscribe from an event
+   * Subscribe to the next occurrence of an event or wildcard pattern only
+   * @returns Subscription that removes the listener before it fires
    */
-  off<T>(eventType: string, listener: EventListener<T>): void;
+  once<K extends EventKeyOrPattern<TEvents>>(
+    eventType: K,
+    listener: EventListener<EventData<TEvents, K>>,
+    options?: ListenerOptions
+  ): Subscription;
 
   /**
-   * Clear all listeners for a specific event type
+   * Wait for the next occurrence of an event or wildcard pattern
+   * @returns Promise resolving with the event payload
    */
-  clear(eventType: string): void;
+  waitFor<K extends EventKeyOrPattern<TEvents>>(
+    eventType: K,
+    options?: WaitForOptions<EventData<TEvents, K>>
+  ): Promise<EventPayload<EventData<TEvents, K>>>;
+
+  /**
+   * Get the last payload kept for a sticky event type
+   */
+  getLast<K extends EventKey<TEvents>>(eventType: K): EventPayload<TEvents[K]> | undefined;
+
+  /**
+   * Unsubscribe from an event or wildcard pattern
+   */
+  off<K extends EventKeyOrPattern<TEvents>>(
+    eventType: K,
+    listener: EventListener<EventData<TEvents, K>>
+  ): void;
+
+  /**
+   * Clear all listeners for a specific event type or wildcard pattern
+   */
+  clear(eventType: EventKeyOrPattern<TEvents>): void;
 
   /**
    * Clear all listeners for all events
@@ -44,27 +561,61 @@ export interface IEventService {
 /**
  * Broadcast service interface
  */
-export interface IBroadcastService {
+export interface IBroadcastService<TChannels extends ChannelMap = DefaultChannelMap> {
   /**
    * Subscribe to a broadcast channel
    * @returns Listener ID that can be used to unsubscribe
    */
-  subscribe(channelName: string, callback: (data: any) => void): string;
+  subscribe<K extends ChannelKey<TChannels>>(
+    channelName: K,
+    callback: BroadcastCallback<TChannels[K]>,
+    options?: BroadcastSubscribeOptions
+  ): string;
 
   /**
    * Unsubscribe a specific listener from a broadcast channel
    */
-  unsubscribe(channelName: string, listenerId: string): void;
+  unsubscribe(channelName: ChannelKey<TChannels>, listenerId: string): void;
 
   /**
    * Broadcast data to a channel
    */
-  broadcast(channelName: string, data?: any): void;
+  broadcast<K extends ChannelKey<TChannels>>(
+    channelName: K,
+    ...args: BroadcastArgs<TChannels, K>
+  ): void;
+
+  /**
+   * Call a method handled by other tabs
+   * @returns Promise resolving with the first response, or every response in `all` mode
+   */
+  request<TResult = unknown>(
+    channelName: string,
+    method: string,
+    params?: unknown,
+    options?: RpcRequestOptions & { mode?: 'first' }
+  ): Promise<TResult>;
+  request<TResult = unknown>(
+    channelName: string,
+    method: string,
+    params: unknown,
+    options: RpcRequestOptions & { mode: 'all' }
+  ): Promise<RpcResponse<TResult>[]>;
+
+  /**
+   * Answer requests for a method from other tabs
+   * @returns Subscription that removes the handler
+   */
+  handle<TParams = any, TResult = unknown>(
+    channelName: string,
+    method: string,
+    handler: RpcHandler<TParams, TResult>
+  ): Subscription;
 
   /**
    * Close a specific channel
    */
-  close(channelName: string): void;
+  close(channelName: ChannelKey<TChannels>): void;
 
   /**
    * Close all channels